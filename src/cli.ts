@@ -5,9 +5,15 @@ import fetchCommand from './commands/fetch.ts'
 import installCommand from './commands/install.ts'
 import listCommand from './commands/list.ts'
 import showCommand from './commands/show.ts'
+import searchCommand from './commands/search.ts'
+import mcpCommand from './commands/mcp.ts'
+import lintCommand from './commands/lint.ts'
 import updateCommand from './commands/update.ts'
 import clearCommand from './commands/clear.ts'
 import uninstallCommand from './commands/uninstall.ts'
+import historyCommand from './commands/history.ts'
+import rollbackCommand from './commands/rollback.ts'
+import configCommand from './commands/config.ts'
 
 const mainCommand = define({
   name: 'erudita',
@@ -19,7 +25,13 @@ const mainCommand = define({
     console.log('  install Install docs and link to project (.erudita/)')
     console.log('  list    List all cached package documentation')
     console.log('  show    Display cached documentation for a package')
+    console.log('  search  Search cached documentation')
+    console.log('  mcp     Serve cached documentation to MCP clients over stdio')
+    console.log('  lint    Check an llms.txt file against the llms.txt proposal')
     console.log('  update  Refresh cached documentation for packages')
+    console.log('  history List cached snapshots of a package')
+    console.log('  rollback Restore a previous snapshot of a package')
+    console.log('  config  Show or change the user configuration')
     console.log('  clear   Remove cached documentation')
     console.log('  uninstall Remove docs links from the project')
     console.log('\nRun `erudita <command> --help` for more information.')
@@ -36,7 +48,13 @@ await cli(process.argv.slice(2), mainCommand, {
     i: installCommand,
     list: listCommand,
     show: showCommand,
+    search: searchCommand,
+    mcp: mcpCommand,
+    lint: lintCommand,
     update: updateCommand,
+    history: historyCommand,
+    rollback: rollbackCommand,
+    config: configCommand,
     clear: clearCommand,
     uninstall: uninstallCommand,
     un: uninstallCommand,
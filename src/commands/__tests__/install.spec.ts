@@ -1,11 +1,19 @@
-import { existsSync, mkdirSync, readFileSync, rmSync } from 'node:fs'
+import { execFileSync } from 'node:child_process'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
+import { pathToFileURL } from 'node:url'
 import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
-import { _setCacheDir } from '../../lib/cache.ts'
+import {
+  _setCacheDir,
+  getCachedDocFile,
+  getCachedMeta,
+  listCachedDocFiles,
+} from '../../lib/cache.ts'
 import { getOrCreateProjectConfig, readProjectConfig } from '../../lib/project.ts'
+import { hashContent, readProjectLock } from '../../lib/lock.ts'
 import installCmd from '../install.ts'
 
 const server = setupServer()
@@ -69,7 +77,7 @@ describe('install command --homepage flag', () => {
       // Verify erudita.json contains URL
       const config = readProjectConfig(testDir)
       expect(config.packages['example-pkg']).toBeDefined()
-      expect(config.packages['example-pkg'].url).toBe('https://example.com')
+      expect(config.packages['example-pkg']).toMatchObject({ url: 'https://example.com' })
     } finally {
       process.chdir(originalCwd)
     }
@@ -93,7 +101,7 @@ describe('install command --homepage flag', () => {
       } as any)
 
       const config = readProjectConfig(testDir)
-      expect(config.packages['example-pkg'].url).toBe('https://example.com')
+      expect(config.packages['example-pkg']).toMatchObject({ url: 'https://example.com' })
     } finally {
       process.chdir(originalCwd)
     }
@@ -117,12 +125,65 @@ describe('install command --homepage flag', () => {
       } as any)
 
       const config = readProjectConfig(testDir)
-      expect(config.packages['example-pkg'].url).toBe('https://example.com')
+      expect(config.packages['example-pkg']).toMatchObject({ url: 'https://example.com' })
     } finally {
       process.chdir(originalCwd)
     }
   })
 
+  it('installs docs from a local llms.txt with --homepage', async () => {
+    mkdirSync(join(testDir, 'docs/guide'), { recursive: true })
+    writeFileSync(
+      join(testDir, 'docs/llms.txt'),
+      '# Internal\n\n- [Intro](./guide/intro.md)\n- [API](api.md)',
+    )
+    writeFileSync(join(testDir, 'docs/guide/intro.md'), '# Intro')
+    writeFileSync(join(testDir, 'docs/api.md'), '# API')
+
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install', 'internal'],
+        values: {
+          homepage: './docs/llms.txt',
+        },
+      } as any)
+
+      const config = readProjectConfig(testDir)
+      expect(config?.packages['internal']).toMatchObject({ url: 'file:./docs/llms.txt' })
+      expect(getCachedMeta('internal')?.sourceUrl).toBe(
+        pathToFileURL(join(process.cwd(), 'docs/llms.txt')).href,
+      )
+      expect(listCachedDocFiles('internal').sort()).toEqual(['api.md', 'guide/intro.md'])
+    } finally {
+      process.chdir(originalCwd)
+    }
+  })
+
+  it('errors when a local --homepage does not exist', async () => {
+    const originalCwd = process.cwd()
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install', 'internal'],
+        values: {
+          homepage: 'file:./missing',
+        },
+      } as any)
+
+      expect(logs.join('\n')).toContain('Local path "file:./missing" does not exist')
+      expect(readProjectConfig(testDir)).toBeNull()
+    } finally {
+      process.chdir(originalCwd)
+      console.log = consoleLog
+    }
+  })
+
   it('errors when --homepage used with --deps flag', async () => {
     const originalCwd = process.cwd()
     const consoleLog = console.log
@@ -233,7 +294,7 @@ describe('install command --homepage flag', () => {
 
       const config = readProjectConfig(testDir)
       expect(config.packages['@scope/pkg']).toBeDefined()
-      expect(config.packages['@scope/pkg'].url).toBe('https://example.com')
+      expect(config.packages['@scope/pkg']).toMatchObject({ url: 'https://example.com' })
     } finally {
       process.chdir(originalCwd)
     }
@@ -258,9 +319,533 @@ describe('install command --homepage flag', () => {
 
       const config = readProjectConfig(testDir)
       expect(config.packages['pkg@1.0.0']).toBeDefined()
-      expect(config.packages['pkg@1.0.0'].url).toBe('https://example.com')
+      expect(config.packages['pkg@1.0.0']).toMatchObject({ url: 'https://example.com' })
+    } finally {
+      process.chdir(originalCwd)
+    }
+  })
+})
+
+describe('install command --deps', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('uses versions from the lockfile in package keys', async () => {
+    server.use(
+      http.get('https://registry.npmjs.org/vue', () => {
+        return HttpResponse.json({ name: 'vue', homepage: 'https://vuejs.org' })
+      }),
+      http.get('https://registry.npmjs.org/unlocked', () => {
+        return HttpResponse.json({ name: 'unlocked', homepage: 'https://unlocked.dev' })
+      }),
+      http.get('https://vuejs.org/llms.txt', () => {
+        return HttpResponse.text('# Vue')
+      }),
+      http.get('https://unlocked.dev/llms.txt', () => {
+        return HttpResponse.text('# Unlocked')
+      }),
+    )
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ dependencies: { vue: '^3.4.0' }, devDependencies: { unlocked: '^1.0.0' } }),
+    )
+    writeFileSync(
+      join(testDir, 'package-lock.json'),
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: { 'node_modules/vue': { version: '3.4.5' } },
+      }),
+    )
+
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install'],
+        values: { deps: 'all' },
+      } as any)
+
+      const config = readProjectConfig(testDir)
+      expect(Object.keys(config!.packages).sort()).toEqual(['unlocked', 'vue@3.4.5'])
+      expect(config!.packages['vue@3.4.5']).toMatchObject({ url: 'https://vuejs.org' })
+    } finally {
+      process.chdir(originalCwd)
+    }
+  })
+
+  it('installs the dependencies of every workspace package', async () => {
+    server.use(
+      http.get('https://registry.npmjs.org/:name', ({ params }) => {
+        return HttpResponse.json({ name: params.name, homepage: `https://${params.name}.dev` })
+      }),
+      http.get('https://:host/llms.txt', ({ params }) => {
+        return HttpResponse.text(`# ${params.host}`)
+      }),
+    )
+    writeFileSync(join(testDir, 'package.json'), JSON.stringify({ name: 'root' }))
+    writeFileSync(join(testDir, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/*'\n")
+    for (const [dir, pkg] of Object.entries({
+      app: { name: 'app', dependencies: { vue: '^3.4.0', ui: 'workspace:*' } },
+      ui: { name: 'ui', dependencies: { vue: '^3.4.0', pinia: '^3.0.0' } },
+    })) {
+      mkdirSync(join(testDir, 'packages', dir), { recursive: true })
+      writeFileSync(join(testDir, 'packages', dir, 'package.json'), JSON.stringify(pkg))
+    }
+
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install'],
+        values: { deps: 'prod', workspace: 'app' },
+      } as any)
+      expect(Object.keys(readProjectConfig(testDir)!.packages)).toEqual(['vue'])
+
+      await installCmd.run({
+        positionals: ['install'],
+        values: { deps: 'all' },
+      } as any)
+      expect(Object.keys(readProjectConfig(testDir)!.packages).sort()).toEqual(['pinia', 'vue'])
+    } finally {
+      process.chdir(originalCwd)
+    }
+  })
+
+  it('installs peer dependencies and their dependencies with --depth', async () => {
+    server.use(
+      http.get('https://registry.npmjs.org/:name', ({ params }) => {
+        return HttpResponse.json({ name: params.name, homepage: `https://${params.name}.dev` })
+      }),
+      http.get('https://:host/llms.txt', ({ params }) => {
+        return HttpResponse.text(`# ${params.host}`)
+      }),
+    )
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        peerDependencies: { vue: '^3.5.0' },
+        devDependencies: { vitest: '^4.0.0' },
+      }),
+    )
+    mkdirSync(join(testDir, 'node_modules', 'vue'), { recursive: true })
+    writeFileSync(
+      join(testDir, 'node_modules', 'vue', 'package.json'),
+      JSON.stringify({ version: '3.5.13', dependencies: { shared: '3.5.13' } }),
+    )
+    mkdirSync(join(testDir, 'node_modules', 'shared'), { recursive: true })
+    writeFileSync(
+      join(testDir, 'node_modules', 'shared', 'package.json'),
+      JSON.stringify({ version: '3.5.13' }),
+    )
+
+    const originalCwd = process.cwd()
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install'],
+        values: { deps: 'peer', depth: '1' },
+      } as any)
+      expect(Object.keys(readProjectConfig(testDir)!.packages).sort()).toEqual([
+        'shared@3.5.13',
+        'vue',
+      ])
+
+      await installCmd.run({
+        positionals: ['install'],
+        values: { deps: 'peers' },
+      } as any)
+      expect(logs.join('\n')).toContain('Invalid --deps value "peers"')
+
+      await installCmd.run({
+        positionals: ['install', 'vue'],
+        values: { depth: '1' },
+      } as any)
+      expect(logs.join('\n')).toContain('Error: --depth can only be used with --deps')
+    } finally {
+      console.log = consoleLog
+      process.exitCode = undefined
+      process.chdir(originalCwd)
+    }
+  })
+
+  it('rejects a --concurrency that is not a positive integer', async () => {
+    const originalCwd = process.cwd()
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      process.chdir(testDir)
+      for (const concurrency of ['-1', '0', 'abc', '1.5']) {
+        process.exitCode = undefined
+        await installCmd.run({
+          positionals: ['install', 'vue'],
+          values: { concurrency },
+        } as any)
+        expect(logs.at(-1)).toBe(
+          `Invalid --concurrency value "${concurrency}". Use a number of downloads, e.g. 5.`,
+        )
+        expect(process.exitCode).toBe(1)
+      }
+      expect(readProjectConfig(testDir)).toBeNull()
+    } finally {
+      console.log = consoleLog
+      process.exitCode = undefined
+      process.chdir(originalCwd)
+    }
+  })
+  it('downloads packages in parallel and reports them in order', async () => {
+    // slow's llms.txt only responds once fast's was requested
+    let releaseSlow!: () => void
+    const fastRequested = new Promise<void>((resolve) => (releaseSlow = resolve))
+    server.use(
+      http.get('https://registry.npmjs.org/missing', () => {
+        return HttpResponse.json({ name: 'missing' })
+      }),
+      http.get('https://registry.npmjs.org/:name', ({ params }) => {
+        return HttpResponse.json({ name: params.name, homepage: `https://${params.name}.dev` })
+      }),
+      http.get('https://slow.dev/llms.txt', async () => {
+        await fastRequested
+        return HttpResponse.text('# Slow')
+      }),
+      http.get('https://fast.dev/llms.txt', () => {
+        releaseSlow()
+        return HttpResponse.text('# Fast')
+      }),
+    )
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ dependencies: { slow: '^1.0.0', missing: '^1.0.0', fast: '^1.0.0' } }),
+    )
+
+    const originalCwd = process.cwd()
+    const write = process.stdout.write
+    const output: string[] = []
+    process.stdout.write = ((chunk: string) => output.push(chunk)) as any
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install'],
+        values: { deps: 'prod', concurrency: '3' },
+      } as any)
+    } finally {
+      process.stdout.write = write
+      console.log = consoleLog
+      process.chdir(originalCwd)
+    }
+
+    const results = output
+      .join('')
+      .split('\n')
+      .map((line) => line.slice(line.lastIndexOf('\x1b[K') + 3))
+      .filter(Boolean)
+    expect(results).toEqual([
+      '  [ ok ] slow (1 docs)',
+      '  [fail] missing - could not find website URL',
+      '  [ ok ] fast (1 docs)',
+    ])
+    expect(logs).toContain('\nDone: 2 installed, 1 failed')
+    expect(Object.keys(readProjectConfig(testDir)!.packages)).toEqual(['slow', 'fast'])
+  })
+})
+
+describe('install command erudita.lock', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  function useDocs(content: string) {
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text('# Example\n\n- [Guide](./guide.md)')
+      }),
+      http.get('https://example.com/guide.md', () => {
+        return HttpResponse.text(content)
+      }),
+    )
+  }
+
+  it('locks installed docs and reports drift until relocked', async () => {
+    const originalCwd = process.cwd()
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+
+    try {
+      process.chdir(testDir)
+      useDocs('# Guide v1')
+      await installCmd.run({
+        positionals: ['install', 'example-pkg'],
+        values: { homepage: 'https://example.com' },
+      } as any)
+
+      const lock = readProjectLock(testDir)
+      expect(lock?.packages['example-pkg']).toMatchObject({
+        resolved: 'https://example.com/llms.txt',
+        llmsTxt: hashContent('# Example\n\n- [Guide](./guide.md)'),
+        docs: { 'guide.md': hashContent('# Guide v1') },
+      })
+
+      // Upstream changed
+      useDocs('# Guide v2')
+      await installCmd.run({ positionals: ['install'], values: { force: true } } as any)
+
+      expect(logs.join('\n')).toContain('[drift] example-pkg - 1 changed')
+      expect(logs.join('\n')).toContain('1 package(s) differ from erudita.lock.')
+      expect(readProjectLock(testDir)).toEqual(lock)
+
+      await installCmd.run({ positionals: ['install'], values: { relock: true } } as any)
+      expect(readProjectLock(testDir)?.packages['example-pkg'].docs).toEqual({
+        'guide.md': hashContent('# Guide v2'),
+      })
+    } finally {
+      process.chdir(originalCwd)
+      console.log = consoleLog
+    }
+  })
+
+  it('drops lock entries not in erudita.json', async () => {
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(testDir)
+      writeFileSync(join(testDir, 'erudita.json'), JSON.stringify({ packages: {} }))
+      writeFileSync(
+        join(testDir, 'erudita.lock'),
+        JSON.stringify({
+          lockfileVersion: 1,
+          packages: { gone: { fetchedAt: 1, llmsTxt: 'sha256-x', docs: {} } },
+        }),
+      )
+      useDocs('# Guide')
+      writeFileSync(
+        join(testDir, 'erudita.json'),
+        JSON.stringify({ packages: { 'example-pkg': { url: 'https://example.com' } } }),
+      )
+
+      await installCmd.run({ positionals: ['install'], values: {} } as any)
+
+      expect(Object.keys(readProjectLock(testDir)!.packages)).toEqual(['example-pkg'])
     } finally {
       process.chdir(originalCwd)
     }
   })
 })
+
+describe('install command --skip-optional', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('skips optional entries and saves the setting in erudita.json', async () => {
+    const requested: string[] = []
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text(
+          '# Example\n\n## Docs\n\n- [Guide](./guide.md)\n\n## Optional\n\n- [Blog](./blog.md)',
+        )
+      }),
+      http.get('https://example.com/:file', ({ params }) => {
+        requested.push(params.file as string)
+        return HttpResponse.text(`# ${params.file}`)
+      }),
+    )
+
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(testDir)
+      await installCmd.run({
+        positionals: ['install', 'example-pkg'],
+        values: { homepage: 'https://example.com', 'skip-optional': true },
+      } as any)
+
+      expect(requested).toEqual(['guide.md'])
+      expect(listCachedDocFiles('example-pkg')).toEqual(['guide.md'])
+      expect(getCachedMeta('example-pkg')?.skipOptional).toBe(true)
+      expect(readProjectConfig(testDir)?.packages['example-pkg']).toEqual({
+        url: 'https://example.com',
+        skipOptional: true,
+      })
+
+      // The setting from erudita.json applies to later installs
+      requested.length = 0
+      await installCmd.run({ positionals: ['install'], values: { force: true } } as any)
+      expect(requested).toEqual(['guide.md'])
+    } finally {
+      process.chdir(originalCwd)
+    }
+  })
+})
+
+describe('install command git sources', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('installs docs of a git repository from erudita.json', async () => {
+    const repoDir = join(testDir, 'repo')
+    mkdirSync(join(repoDir, 'docs'), { recursive: true })
+    writeFileSync(join(repoDir, 'docs/llms.txt'), '# Lib\n\n- [Guide](./guide.md)')
+    writeFileSync(join(repoDir, 'docs/guide.md'), '# Guide')
+    const git = (...args: string[]) =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=erudita', '-c', 'user.email=erudita@example.com', ...args],
+        { cwd: repoDir, encoding: 'utf-8' },
+      ).trim()
+    git('init', '--quiet')
+    git('add', '-A')
+    git('commit', '--quiet', '-m', 'docs')
+    git('tag', 'v1.0.0')
+    const commit = git('rev-parse', 'HEAD')
+
+    const entry = { git: './repo', ref: 'v1.0.0', path: 'docs/llms.txt' }
+    writeFileSync(join(testDir, 'erudita.json'), JSON.stringify({ packages: { lib: entry } }))
+
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(testDir)
+      await installCmd.run({ positionals: ['install'], values: {} } as any)
+
+      const repoUrl = pathToFileURL(join(process.cwd(), 'repo')).href
+      expect(listCachedDocFiles('lib')).toEqual(['guide.md'])
+      expect(getCachedMeta('lib')).toMatchObject({
+        sourceUrl: repoUrl,
+        git: { git: repoUrl, ref: 'v1.0.0', path: 'docs/llms.txt', commit },
+      })
+      expect(readProjectLock(testDir)?.packages['lib'].resolved).toBe(`${repoUrl}#${commit}`)
+      expect(readProjectConfig(testDir)?.packages['lib']).toEqual(entry)
+    } finally {
+      process.chdir(originalCwd)
+    }
+  })
+
+  it('installs refs of one git repository in parallel', async () => {
+    const repoDir = join(testDir, 'repo')
+    mkdirSync(repoDir, { recursive: true })
+    const git = (...args: string[]) =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=erudita', '-c', 'user.email=erudita@example.com', ...args],
+        { cwd: repoDir, encoding: 'utf-8' },
+      ).trim()
+    git('init', '--quiet')
+    const commits: Record<string, string> = {}
+    for (const version of ['v1', 'v2']) {
+      writeFileSync(join(repoDir, 'llms.txt'), `# Lib ${version}\n\n- [Guide](./guide.md)`)
+      writeFileSync(join(repoDir, 'guide.md'), `# Guide ${version}`)
+      git('add', '-A')
+      git('commit', '--quiet', '-m', version)
+      git('tag', version)
+      commits[version] = git('rev-parse', 'HEAD')
+    }
+    writeFileSync(
+      join(testDir, 'erudita.json'),
+      JSON.stringify({
+        packages: {
+          'lib@1': { git: './repo', ref: 'v1' },
+          'lib@2': { git: './repo', ref: 'v2' },
+        },
+      }),
+    )
+
+    const originalCwd = process.cwd()
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      process.chdir(testDir)
+      await installCmd.run({ positionals: ['install'], values: { concurrency: '2' } } as any)
+    } finally {
+      console.log = consoleLog
+      process.chdir(originalCwd)
+    }
+
+    expect(logs).toContain('\nDone: 2 installed, 0 failed')
+    for (const [key, version] of [
+      ['lib@1', 'v1'],
+      ['lib@2', 'v2'],
+    ]) {
+      expect(getCachedDocFile(key, 'guide.md')).toBe(`# Guide ${version}`)
+      expect(getCachedMeta(key)?.git?.commit).toBe(commits[version])
+    }
+  })
+})
@@ -0,0 +1,43 @@
+import { spawn } from 'node:child_process'
+import { existsSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, describe, expect, it } from 'vitest'
+
+const cliPath = join(import.meta.dirname, '../../cli.ts')
+
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-mcp-cli-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+function runCli(args: string[], input: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [cliPath, ...args], {
+      env: { ...process.env, ERUDITA_CACHE_DIR: testCacheDir },
+      stdio: ['pipe', 'pipe', 'ignore'],
+    })
+    let stdout = ''
+    child.stdout.setEncoding('utf8')
+    child.stdout.on('data', (chunk: string) => (stdout += chunk))
+    child.on('error', reject)
+    child.on('close', () => resolve(stdout))
+    child.stdin.end(input)
+  })
+}
+
+// the CLI runs from its TypeScript sources, which needs type stripping
+describe.skipIf(!process.features.typescript)('mcp command', () => {
+  afterEach(() => {
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('writes nothing but JSON-RPC messages to stdout', async () => {
+    const stdout = await runCli(['mcp'], '{"jsonrpc":"2.0","id":1,"method":"ping"}\n')
+
+    expect(stdout.startsWith('{')).toBe(true)
+    expect(JSON.parse(stdout.split('\n')[0]!)).toEqual({ jsonrpc: '2.0', id: 1, result: {} })
+  })
+})
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import searchCmd from '../search.ts'
+
+describe('search command', () => {
+  afterEach(() => {
+    process.exitCode = undefined
+  })
+
+  it('rejects a --limit that is not a positive integer', async () => {
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      for (const limit of ['abc', '0', '-2', '2.5']) {
+        process.exitCode = undefined
+        await searchCmd.run({ positionals: ['search', 'query'], values: { limit } } as any)
+        expect(logs.at(-1)).toBe(
+          `Invalid --limit value "${limit}". Use a number of results, e.g. 10.`,
+        )
+        expect(process.exitCode).toBe(1)
+      }
+    } finally {
+      console.log = consoleLog
+    }
+  })
+})
@@ -0,0 +1,88 @@
+import { existsSync, mkdirSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { _setCacheDir, cachePackage } from '../../lib/cache.ts'
+import showCmd from '../show.ts'
+
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-show-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+describe('show command', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  async function show(values: Record<string, unknown> = {}): Promise<string> {
+    const consoleLog = console.log
+    const logs: string[] = []
+    console.log = (...args: any[]) => logs.push(args.join(' '))
+    try {
+      await showCmd.run({ positionals: ['show', 'pkg'], values } as any)
+    } finally {
+      console.log = consoleLog
+    }
+    return logs.join('\n')
+  }
+
+  it('renders entries as a tree grouped by section', async () => {
+    cachePackage(
+      'pkg',
+      'https://example.com',
+      { title: 'Pkg', entries: [], sections: [] },
+      `# Pkg
+
+- [Overview](./overview.md)
+
+## Guide
+
+- [Intro](./intro.md): Start here
+- [Install](./install.md)
+
+## Optional
+
+- [Blog](./blog.md)
+`,
+      new Map(),
+      { skipOptional: true },
+    )
+
+    const output = await show()
+    expect(output).toContain(`## Documentation Entries (3)
+
+  0: Overview
+  Guide
+  ├─ 1: Intro
+  │     Start here
+  └─ 2: Install`)
+    expect(output).toContain(`## Optional Entries (1, not downloaded)
+
+  Optional
+  └─ 3: Blog`)
+  })
+
+  it('finds entries by section and title', async () => {
+    cachePackage(
+      'pkg',
+      'https://example.com',
+      { title: 'Pkg', entries: [], sections: [] },
+      '# Pkg\n\n## Guide\n\n- [Intro](./intro.md)\n',
+      new Map(),
+    )
+
+    expect(await show({ entry: 'guide - intro' })).toContain('# Guide - Intro')
+  })
+})
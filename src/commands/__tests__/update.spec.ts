@@ -0,0 +1,105 @@
+import { existsSync, mkdirSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import {
+  _setCacheDir,
+  cachePackage,
+  getCachedDocFile,
+  listCachedDocFiles,
+} from '../../lib/cache.ts'
+import updateCmd from '../update.ts'
+
+const server = setupServer()
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+afterEach(() => server.resetHandlers())
+afterAll(() => server.close())
+
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-update-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+describe('update command', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('fetches changed entries, deletes removed ones and prints a summary', async () => {
+    cachePackage(
+      'pkg',
+      'https://example.com',
+      { title: 'Pkg', entries: [], sections: [] },
+      '# Pkg\n\n- [Kept](./kept.md)\n- [Changed](./changed.md)\n- [Removed](./removed.md)',
+      new Map([
+        ['kept.md', '# Kept'],
+        ['changed.md', '# Changed v1'],
+        ['removed.md', '# Removed'],
+      ]),
+      {
+        llmsTxtUrl: 'https://example.com/llms.txt',
+        validators: { 'https://example.com/kept.md': { etag: '"kept"' } },
+        docPaths: new Map([
+          ['https://example.com/kept.md', 'kept.md'],
+          ['https://example.com/changed.md', 'changed.md'],
+          ['https://example.com/removed.md', 'removed.md'],
+        ]),
+      },
+    )
+
+    const requested: string[] = []
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text(
+          '# Pkg\n\n- [Kept](./kept.md)\n- [Changed](./changed.md)\n- [Added](./added.md)',
+        )
+      }),
+      http.get('https://example.com/kept.md', ({ request }) => {
+        requested.push('kept.md')
+        expect(request.headers.get('if-none-match')).toBe('"kept"')
+        return new HttpResponse(null, { status: 304 })
+      }),
+      http.get('https://example.com/changed.md', () => {
+        requested.push('changed.md')
+        return HttpResponse.text('# Changed v2')
+      }),
+      http.get('https://example.com/added.md', () => {
+        requested.push('added.md')
+        return HttpResponse.text('# Added')
+      }),
+    )
+
+    const write = process.stdout.write
+    const output: string[] = []
+    process.stdout.write = ((chunk: string) => output.push(chunk)) as any
+    const consoleLog = console.log
+    console.log = () => {}
+
+    try {
+      await updateCmd.run({ positionals: ['update', 'pkg'], values: {} } as any)
+    } finally {
+      process.stdout.write = write
+      console.log = consoleLog
+    }
+
+    expect(requested.sort()).toEqual(['added.md', 'changed.md', 'kept.md'])
+    expect(listCachedDocFiles('pkg')).toEqual(['added.md', 'changed.md', 'kept.md'])
+    expect(getCachedDocFile('pkg', 'kept.md')).toBe('# Kept')
+    expect(getCachedDocFile('pkg', 'changed.md')).toBe('# Changed v2')
+    expect(output.join('')).toContain('[ ok ] pkg (3 docs, 1 added, 1 removed, 1 changed)')
+  })
+})
@@ -0,0 +1,81 @@
+import { join } from 'node:path'
+import { define } from 'gunshi'
+import {
+  CONFIG_FILE,
+  getConfigDescriptions,
+  getConfigDir,
+  isConfigKey,
+  resolveConfig,
+  setUserConfigValue,
+} from '../lib/config.ts'
+import type { ConfigKey, ConfigLayers } from '../lib/config.ts'
+import { readProjectConfig } from '../lib/project.ts'
+
+/**
+ * Config values set by the project in the current directory
+ * Projects can only choose how their docs are installed
+ */
+function getProjectLayer(): ConfigLayers {
+  const projectConfig = readProjectConfig(process.cwd())
+  return projectConfig?.linkMode ? { project: { linkMode: projectConfig.linkMode } } : {}
+}
+
+export default define({
+  name: 'config',
+  description: 'Show or change the user configuration',
+  run: async (ctx) => {
+    const positionals = (ctx.positionals as string[]).filter((p) => p !== 'config')
+    const [action = 'list', key, value] = positionals
+    const descriptions = getConfigDescriptions()
+    const configPath = join(getConfigDir(), CONFIG_FILE)
+
+    if (action === 'list') {
+      const resolved = resolveConfig(getProjectLayer())
+      console.log(`Config file: ${configPath}\n`)
+      for (const name of Object.keys(resolved) as ConfigKey[]) {
+        const { value, source } = resolved[name]
+        console.log(`  ${name.padEnd(12)} ${String(value) || '-'} (${source})`)
+        console.log(`  ${' '.repeat(12)} ${descriptions[name]}`)
+      }
+      return
+    }
+
+    if ((action !== 'get' && action !== 'set') || !key) {
+      console.log('Usage: erudita config [list | get <key> | set <key> <value>]')
+      process.exitCode = 1
+      return
+    }
+
+    if (!isConfigKey(key)) {
+      console.log(
+        `Unknown config key "${key}". Use one of: ${Object.keys(descriptions).join(', ')}.`,
+      )
+      process.exitCode = 1
+      return
+    }
+
+    if (action === 'get') {
+      console.log(String(resolveConfig(getProjectLayer())[key].value))
+      return
+    }
+
+    if (value === undefined) {
+      console.log(`Usage: erudita config set ${key} <value>`)
+      process.exitCode = 1
+      return
+    }
+
+    const saved = setUserConfigValue(key, value)
+    if (saved === undefined) {
+      console.log(`Invalid value "${value}" for ${key}: ${descriptions[key]}.`)
+      process.exitCode = 1
+      return
+    }
+
+    console.log(`Set ${key} to ${String(saved)} in ${configPath}`)
+    const { source } = resolveConfig(getProjectLayer())[key]
+    if (source !== 'user') {
+      console.log(`Note: ${key} is overridden by the ${source === 'env' ? 'environment' : source}.`)
+    }
+  },
+})
@@ -1,37 +1,14 @@
-import { existsSync, readFileSync } from 'node:fs'
-import { join } from 'node:path'
 import { define } from 'gunshi'
-import { cachePackage, isCached } from '../lib/cache.ts'
-import { fetchPackageDocs } from '../lib/fetcher.ts'
+import { asyncPoolInOrder } from '../lib/async-pool.ts'
+import { cacheFetchResult, getConditionalCache, isCached } from '../lib/cache.ts'
+import { loadConfig } from '../lib/config.ts'
+import { fetchPackageDocs, formatProgressNotes } from '../lib/fetcher.ts'
 import { resolvePackageUrl } from '../lib/npm-resolver.ts'
-
-type DepsFilter = 'all' | 'dev' | 'prod'
-
-/**
- * Read package.json dependencies from cwd
- */
-function readPackageJsonDeps(cwd: string, filter: DepsFilter): string[] {
-  const pkgPath = join(cwd, 'package.json')
-  if (!existsSync(pkgPath)) {
-    return []
-  }
-
-  try {
-    const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'))
-    const deps = Object.keys(pkg.dependencies || {})
-    const devDeps = Object.keys(pkg.devDependencies || {})
-    switch (filter) {
-      case 'prod':
-        return deps
-      case 'dev':
-        return devDeps
-      case 'all':
-        return [...new Set([...deps, ...devDeps])]
-    }
-  } catch {
-    return []
-  }
-}
+import { setDownloadConcurrency } from '../lib/transport.ts'
+import { readLockfileVersions } from '../lib/lockfile.ts'
+import { readTransitiveDeps } from '../lib/dependency-tree.ts'
+import { getWorkspaceDirs, parseDepsFilters, readPackageJsonDeps } from '../lib/workspaces.ts'
+import { buildPackageKey, parsePackageKey } from '../lib/project.ts'
 
 export default define({
   name: 'fetch',
@@ -40,7 +17,11 @@ export default define({
     deps: {
       type: 'string',
       short: 'd',
-      description: 'Fetch from package.json: dev, prod, or all',
+      description: 'Fetch from package.json: dev, prod, peer, optional or all (comma-separated)',
+    },
+    depth: {
+      type: 'string',
+      description: 'With --deps, also include dependencies of dependencies this many levels deep',
     },
     force: {
       type: 'boolean',
@@ -50,28 +31,87 @@ export default define({
     concurrency: {
       type: 'string',
       short: 'c',
-      description: 'Number of concurrent downloads (default: 5)',
+      description: 'Number of concurrent downloads (default: concurrency config, 5)',
+    },
+    'skip-optional': {
+      type: 'boolean',
+      description: 'Skip entries of the llms.txt "Optional" section',
+    },
+    workspace: {
+      type: 'string',
+      short: 'w',
+      description: 'With --deps, only read this workspace package (name or directory)',
     },
   },
   run: async (ctx) => {
-    const { deps, force = false, concurrency: concurrencyStr } = ctx.values
-    const concurrency = concurrencyStr ? parseInt(concurrencyStr, 10) : undefined
+    const {
+      deps,
+      force = false,
+      concurrency: concurrencyStr,
+      'skip-optional': skipOptional = false,
+      workspace,
+      depth: depthStr,
+    } = ctx.values
+    const concurrency = concurrencyStr !== undefined ? Number(concurrencyStr) : undefined
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      console.log(
+        `Invalid --concurrency value "${concurrencyStr}". Use a number of downloads, e.g. 5.`,
+      )
+      process.exitCode = 1
+      return
+    }
     // Positional args are the package names (filter out the command name itself)
     let packagesToFetch = (ctx.positionals as string[]).filter((p) => p !== 'fetch')
 
-    // If --deps flag, read from package.json
+    if (depthStr !== undefined && !deps) {
+      console.log('Error: --depth can only be used with --deps')
+      process.exitCode = 1
+      return
+    }
+
+    // If --deps flag, read from package.json and workspace packages, versioned by the
+    // lockfile when there is one
     if (deps) {
-      const pkgDeps = readPackageJsonDeps(process.cwd(), deps as DepsFilter)
+      const filters = parseDepsFilters(deps)
+      const depth = depthStr ? Number(depthStr) : 0
+      if (!filters || !Number.isInteger(depth) || depth < 0) {
+        console.log(
+          filters
+            ? `Invalid --depth value "${depthStr}". Use a number of levels, e.g. 1.`
+            : `Invalid --deps value "${deps}". Use dev, prod, peer, optional or all.`,
+        )
+        process.exitCode = 1
+        return
+      }
+      const dirs = getWorkspaceDirs(process.cwd(), workspace)
+      if (!dirs) {
+        console.log(`Workspace package "${workspace}" not found`)
+        process.exitCode = 1
+        return
+      }
+      const pkgDeps = readPackageJsonDeps(process.cwd(), filters, dirs)
       if (pkgDeps.length === 0) {
         console.log('No dependencies found in package.json')
         return
       }
-      packagesToFetch = pkgDeps
+      const versions = readLockfileVersions(process.cwd(), dirs)
+      packagesToFetch = pkgDeps.map((name) => buildPackageKey(name, versions.get(name) ?? null))
+      for (const [name, version] of readTransitiveDeps(
+        process.cwd(),
+        dirs,
+        pkgDeps,
+        versions,
+        depth,
+      )) {
+        packagesToFetch.push(buildPackageKey(name, version))
+      }
     }
 
     // If no packages specified, show help
     if (packagesToFetch.length === 0) {
-      console.log('Usage: erudita fetch <packages...> or erudita fetch --deps <dev|prod|all>')
+      console.log(
+        'Usage: erudita fetch <packages...> or erudita fetch --deps <dev|prod|peer|optional|all>',
+      )
       console.log('  Specify package names or use --deps to fetch from package.json')
       return
     }
@@ -82,52 +122,75 @@ export default define({
     let skipCount = 0
     let failCount = 0
 
-    for (const pkg of packagesToFetch) {
-      // Check if already cached
-      if (!force && isCached(pkg)) {
-        console.log(`  [skip] ${pkg} (already cached, use --force to refetch)`)
-        skipCount++
-        continue
-      }
+    if (concurrency !== undefined) {
+      setDownloadConcurrency(concurrency)
+    }
 
-      process.stdout.write(`  [....] ${pkg}`)
+    // Packages are resolved and downloaded in parallel, their results are printed
+    // and cached in order
+    await asyncPoolInOrder(
+      concurrency ?? loadConfig().concurrency,
+      packagesToFetch,
+      async (pkg, isNext) => {
+        // Check if already cached
+        if (!force && isCached(pkg)) {
+          return { skipped: true } as const
+        }
 
-      // Resolve package URL
-      const baseUrl = await resolvePackageUrl(pkg)
-      if (!baseUrl) {
-        process.stdout.write(`\r\x1b[K  [fail] ${pkg} - could not find website URL\n`)
-        failCount++
-        continue
-      }
+        // Only the package printed next shows its progress, the others would overwrite it
+        if (isNext()) {
+          process.stdout.write(`\r\x1b[K  [....] ${pkg}`)
+        }
 
-      // Fetch docs with progress
-      let lastErrors = 0
-      const result = await fetchPackageDocs(baseUrl, {
-        concurrency,
-        onProgress(event) {
-          if (event.phase === 'docs') {
-            lastErrors = event.errors
-            const errStr =
-              event.errors > 0 ? ` (${event.errors} error${event.errors > 1 ? 's' : ''})` : ''
-            const line = `  [${event.completed}/${event.total}] ${pkg}${errStr}`
-            process.stdout.write(`\r\x1b[K${line}`)
-          }
-        },
-      })
-      if (!result.success) {
-        process.stdout.write(`\r\x1b[K  [fail] ${pkg} - ${result.error}\n`)
-        failCount++
-        continue
-      }
+        // Resolve package URL
+        const baseUrl = await resolvePackageUrl(parsePackageKey(pkg).name)
+        if (!baseUrl) {
+          return { baseUrl, result: null }
+        }
 
-      // Cache the docs
-      cachePackage(pkg, baseUrl, result.doc!, result.rawLlmsTxt!, result.docFiles!)
+        // Fetch docs with progress
+        const result = await fetchPackageDocs(baseUrl, {
+          concurrency,
+          conditional: getConditionalCache(pkg),
+          skipOptional,
+          onProgress(event) {
+            if (event.phase === 'docs' && isNext()) {
+              const line = `  [${event.completed}/${event.total}] ${pkg}${formatProgressNotes(event)}`
+              process.stdout.write(`\r\x1b[K${line}`)
+            }
+          },
+        })
+        return { baseUrl, result }
+      },
+      (outcome, pkg) => {
+        if ('skipped' in outcome) {
+          process.stdout.write(`\r\x1b[K  [skip] ${pkg} (already cached, use --force to refetch)\n`)
+          skipCount++
+          return
+        }
 
-      const docCount = result.docFiles?.size || 0
-      const errStr = lastErrors > 0 ? `, ${lastErrors} error${lastErrors > 1 ? 's' : ''}` : ''
-      process.stdout.write(`\r\x1b[K  [ ok ] ${pkg} (${docCount} docs${errStr})\n`)
-      successCount++
-    }
+        const { baseUrl, result } = outcome
+        if (!baseUrl || !result) {
+          process.stdout.write(`\r\x1b[K  [fail] ${pkg} - could not find website URL\n`)
+          failCount++
+          return
+        }
+        if (!result.success) {
+          process.stdout.write(`\r\x1b[K  [fail] ${pkg} - ${result.error}\n`)
+          failCount++
+          return
+        }
+
+        // Cache the docs
+        cacheFetchResult(pkg, baseUrl, result, { skipOptional })
+
+        const docCount = (result.docFiles?.size || 0) + (result.notModified?.length || 0)
+        const errors = result.failed?.length || 0
+        const errStr = errors > 0 ? `, ${errors} error${errors > 1 ? 's' : ''}` : ''
+        process.stdout.write(`\r\x1b[K  [ ok ] ${pkg} (${docCount} docs${errStr})\n`)
+        successCount++
+      },
+    )
 
     console.log(`\nDone: ${successCount} fetched, ${skipCount} skipped, ${failCount} failed`)
   },
@@ -0,0 +1,38 @@
+import { define } from 'gunshi'
+import { getCachedMeta, listCachedDocFiles, listSnapshots } from '../lib/cache.ts'
+
+export default define({
+  name: 'history',
+  description: 'List cached snapshots of a package',
+  run: async (ctx) => {
+    const positionals = (ctx.positionals as string[]).filter((p) => p !== 'history')
+    const packageName = positionals[0] as string | undefined
+
+    if (!packageName) {
+      console.log('Usage: erudita history <package>')
+      return
+    }
+
+    const meta = getCachedMeta(packageName)
+    if (!meta) {
+      console.log(`Package "${packageName}" is not cached.`)
+      return
+    }
+
+    const snapshots = listSnapshots(packageName)
+    const docCount = listCachedDocFiles(packageName).length
+
+    console.log(`History of ${packageName} (${snapshots.length} snapshot(s)):\n`)
+    console.log(`  current  ${new Date(meta.fetchedAt).toLocaleString()} (${docCount} docs)`)
+    snapshots.forEach((snapshot, i) => {
+      const date = new Date(snapshot.fetchedAt).toLocaleString()
+      console.log(
+        `  ${String(i + 1).padEnd(7)}  ${date} (${snapshot.docCount} docs) [${snapshot.id}]`,
+      )
+    })
+
+    if (snapshots.length > 0) {
+      console.log(`\nUse \`erudita rollback ${packageName} [snapshot]\` to restore a snapshot.`)
+    }
+  },
+})
@@ -1,45 +1,100 @@
-import { existsSync, readFileSync } from 'node:fs'
-import { join } from 'node:path'
+import { existsSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
 import { define } from 'gunshi'
-import { cachePackage, isCached, getPackageCacheDir } from '../lib/cache.ts'
-import { fetchPackageDocs } from '../lib/fetcher.ts'
+import { asyncPoolInOrder } from '../lib/async-pool.ts'
+import { cacheFetchResult, getConditionalCache, isCached } from '../lib/cache.ts'
+import { loadConfig } from '../lib/config.ts'
+import { fetchPackageDocs, formatProgressNotes } from '../lib/fetcher.ts'
+import type { FetchResult } from '../lib/fetcher.ts'
 import { resolvePackageUrl } from '../lib/npm-resolver.ts'
-import { validateUrl } from '../lib/url-utils.ts'
+import { setDownloadConcurrency } from '../lib/transport.ts'
+import { isLocalSource, resolveSource, validateSource } from '../lib/url-utils.ts'
+import { readLockfileVersions } from '../lib/lockfile.ts'
+import { readTransitiveDeps } from '../lib/dependency-tree.ts'
+import { getWorkspaceDirs, parseDepsFilters, readPackageJsonDeps } from '../lib/workspaces.ts'
 import {
+  createLockEntry,
+  diffLockEntry,
+  formatLockDrift,
+  getOrCreateProjectLock,
+  writeProjectLock,
+} from '../lib/lock.ts'
+import {
+  buildPackageKey,
   parsePackageKey,
   getOrCreateProjectConfig,
   writeProjectConfig,
   createPackageLink,
   ensureGitignore,
   pruneProjectLinks,
+  registerProject,
 } from '../lib/project.ts'
-import type { ProjectLinkMode } from '../types.ts'
+import type {
+  EruditaLock,
+  FetchProgressEvent,
+  GitSource,
+  ProjectLinkMode,
+  ProjectPackage,
+} from '../types.ts'
 
-type DepsFilter = 'all' | 'dev' | 'prod'
+/**
+ * Get the source to fetch the docs of an erudita.json package from
+ * Local paths, of docs or git repositories, are resolved against cwd
+ */
+function getPackageSource(entry: ProjectPackage, cwd: string): string | GitSource {
+  if ('git' in entry) {
+    return { git: resolveSource(entry.git, cwd), ref: entry.ref, path: entry.path }
+  }
+  return resolveSource(entry.url, cwd)
+}
 
 /**
- * Read package.json dependencies from cwd
+ * Record a package in erudita.lock, or compare it with the locked docs
+ * Returns true when the cached docs drifted from the lock
  */
-function readPackageJsonDeps(cwd: string, filter: DepsFilter): string[] {
-  const pkgPath = join(cwd, 'package.json')
-  if (!existsSync(pkgPath)) {
-    return []
+function syncLockEntry(lock: EruditaLock, packageKey: string, relock: boolean): boolean {
+  const current = createLockEntry(packageKey)
+  if (!current) {
+    return false
   }
 
-  try {
-    const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'))
-    const deps = Object.keys(pkg.dependencies || {})
-    const devDeps = Object.keys(pkg.devDependencies || {})
-    switch (filter) {
-      case 'prod':
-        return deps
-      case 'dev':
-        return devDeps
-      case 'all':
-        return [...new Set([...deps, ...devDeps])]
+  const locked = lock.packages[packageKey]
+  if (locked && !relock) {
+    const drift = diffLockEntry(locked, current)
+    if (drift) {
+      console.log(`  [drift] ${packageKey} - ${formatLockDrift(drift)}`)
+      return true
     }
-  } catch {
-    return []
+    return false
+  }
+
+  lock.packages[packageKey] = current
+  return false
+}
+
+/**
+ * Show the doc downloads of a package on the status line
+ */
+function writeDocsProgress(packageKey: string, event: FetchProgressEvent): void {
+  if (event.phase === 'docs') {
+    const line = `  [${event.completed}/${event.total}] ${packageKey}${formatProgressNotes(event)}`
+    process.stdout.write(`\r\x1b[K${line}`)
+  }
+}
+
+/**
+ * Format the docs of a fetch result, e.g. "3 docs, 1 error"
+ */
+function formatDocCount(result: FetchResult): string {
+  const docCount = (result.docFiles?.size || 0) + (result.notModified?.length || 0)
+  const errors = result.failed?.length || 0
+  return `${docCount} docs${errors > 0 ? `, ${errors} error${errors > 1 ? 's' : ''}` : ''}`
+}
+
+function logDriftSummary(driftCount: number): void {
+  if (driftCount > 0) {
+    console.log(`\n${driftCount} package(s) differ from erudita.lock.`)
+    console.log('Run `erudita install --relock` to lock the current docs.')
   }
 }
 
@@ -50,12 +105,16 @@ export default define({
     deps: {
       type: 'string',
       short: 'd',
-      description: 'Install from package.json: dev, prod, or all',
+      description: 'Install from package.json: dev, prod, peer, optional or all (comma-separated)',
+    },
+    depth: {
+      type: 'string',
+      description: 'With --deps, also include dependencies of dependencies this many levels deep',
     },
     mode: {
       type: 'string',
       short: 'm',
-      description: 'Install mode: link (default) or copy',
+      description: 'Install mode: link or copy (default: linkMode config, link)',
     },
     force: {
       type: 'boolean',
@@ -65,11 +124,24 @@ export default define({
     concurrency: {
       type: 'string',
       short: 'c',
-      description: 'Number of concurrent downloads (default: 5)',
+      description: 'Number of concurrent downloads (default: concurrency config, 5)',
     },
     homepage: {
       type: 'string',
-      description: 'Manually specify website URL for package',
+      description: 'Manually specify website URL or local path (file:./docs) for package',
+    },
+    relock: {
+      type: 'boolean',
+      description: 'Update erudita.lock to the current docs instead of reporting drift',
+    },
+    'skip-optional': {
+      type: 'boolean',
+      description: 'Skip entries of the llms.txt "Optional" section (saved in erudita.json)',
+    },
+    workspace: {
+      type: 'string',
+      short: 'w',
+      description: 'With --deps, only read this workspace package (name or directory)',
     },
   },
   run: async (ctx) => {
@@ -79,8 +151,22 @@ export default define({
       force = false,
       concurrency: concurrencyStr,
       homepage: manualUrl,
+      relock = false,
+      'skip-optional': skipOptionalFlag = false,
+      workspace,
+      depth: depthStr,
     } = ctx.values
-    const concurrency = concurrencyStr ? parseInt(concurrencyStr, 10) : undefined
+    const concurrency = concurrencyStr !== undefined ? Number(concurrencyStr) : undefined
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      console.log(
+        `Invalid --concurrency value "${concurrencyStr}". Use a number of downloads, e.g. 5.`,
+      )
+      process.exitCode = 1
+      return
+    }
+    if (concurrency !== undefined) {
+      setDownloadConcurrency(concurrency)
+    }
     const cwd = process.cwd()
     const modeValue = typeof mode === 'string' ? mode.trim() : ''
     const cliLinkMode =
@@ -101,21 +187,58 @@ export default define({
         console.log('Error: --homepage can only be used when installing exactly one package')
         return
       }
-      const validatedUrl = validateUrl(manualUrl)
+      const validatedUrl = validateSource(manualUrl)
       if (!validatedUrl) {
-        console.log(`Error: Invalid URL format "${manualUrl}". Must be a valid http/https URL.`)
+        console.log(
+          `Error: Invalid URL format "${manualUrl}". Must be a valid http/https URL or a local path.`,
+        )
+        return
+      }
+      if (
+        isLocalSource(validatedUrl) &&
+        !existsSync(fileURLToPath(resolveSource(validatedUrl, cwd)))
+      ) {
+        console.log(`Error: Local path "${manualUrl}" does not exist.`)
         return
       }
     }
 
-    // --deps: read from package.json
+    if (depthStr !== undefined && !deps) {
+      console.log('Error: --depth can only be used with --deps')
+      process.exitCode = 1
+      return
+    }
+
+    // --deps: read from package.json and workspace packages, versioned by the lockfile
+    // when there is one
     if (deps) {
-      const pkgDeps = readPackageJsonDeps(cwd, deps as DepsFilter)
+      const filters = parseDepsFilters(deps)
+      const depth = depthStr ? Number(depthStr) : 0
+      if (!filters || !Number.isInteger(depth) || depth < 0) {
+        console.log(
+          filters
+            ? `Invalid --depth value "${depthStr}". Use a number of levels, e.g. 1.`
+            : `Invalid --deps value "${deps}". Use dev, prod, peer, optional or all.`,
+        )
+        process.exitCode = 1
+        return
+      }
+      const dirs = getWorkspaceDirs(cwd, workspace)
+      if (!dirs) {
+        console.log(`Workspace package "${workspace}" not found`)
+        process.exitCode = 1
+        return
+      }
+      const pkgDeps = readPackageJsonDeps(cwd, filters, dirs)
       if (pkgDeps.length === 0) {
         console.log('No dependencies found in package.json')
         return
       }
-      packagesToInstall = pkgDeps
+      const versions = readLockfileVersions(cwd, dirs)
+      packagesToInstall = pkgDeps.map((name) => buildPackageKey(name, versions.get(name) ?? null))
+      for (const [name, version] of readTransitiveDeps(cwd, dirs, pkgDeps, versions, depth)) {
+        packagesToInstall.push(buildPackageKey(name, version))
+      }
     }
 
     // No args: install from erudita.json
@@ -129,10 +252,16 @@ export default define({
         config.linkMode = cliLinkMode
         writeProjectConfig(cwd, config)
       }
-      const linkMode = cliLinkMode || config.linkMode || 'link'
+      const linkMode = cliLinkMode || config.linkMode || loadConfig().linkMode
       const actionLabel = linkMode === 'copy' ? 'copy' : 'link'
       const keys = Object.keys(config.packages)
       const removedLinks = pruneProjectLinks(cwd, new Set(keys))
+      const lock = getOrCreateProjectLock(cwd)
+      for (const key of Object.keys(lock.packages)) {
+        if (!config.packages[key]) {
+          delete lock.packages[key]
+        }
+      }
 
       if (keys.length === 0) {
         if (removedLinks.length > 0) {
@@ -140,7 +269,9 @@ export default define({
           removedLinks.forEach((key) => console.log(`  ${key}`))
         }
         console.log('Usage: erudita install <packages...>')
-        console.log('       erudita install --deps <dev|prod|all> (from package.json)')
+        console.log(
+          '       erudita install --deps <dev|prod|peer|optional|all> (from package.json)',
+        )
         console.log('\nNo packages in erudita.json yet.')
         return
       }
@@ -155,53 +286,69 @@ export default define({
 
       let successCount = 0
       let failCount = 0
+      let driftCount = 0
+
+      await asyncPoolInOrder(
+        concurrency ?? loadConfig().concurrency,
+        keys,
+        async (packageKey, isNext) => {
+          const source = getPackageSource(config.packages[packageKey], cwd)
+          const skipOptional = skipOptionalFlag || config.packages[packageKey].skipOptional || false
+          if (isCached(packageKey) && !force) {
+            return { source, skipOptional, result: null }
+          }
 
-      for (const packageKey of keys) {
-        const { url } = config.packages[packageKey]
-        const cached = isCached(packageKey)
-
-        if (cached && !force) {
-          // Already cached, just create symlink
-          createPackageLink(cwd, packageKey, linkMode)
-          console.log(`  [${actionLabel}] ${packageKey}`)
-          successCount++
-          continue
-        }
-
-        // Fetch and cache
-        process.stdout.write(`  [....] ${packageKey}`)
-
-        let lastErrors = 0
-        const result = await fetchPackageDocs(url, {
-          concurrency,
-          onProgress(event) {
-            if (event.phase === 'docs') {
-              lastErrors = event.errors
-              const errStr =
-                event.errors > 0 ? ` (${event.errors} error${event.errors > 1 ? 's' : ''})` : ''
-              const line = `  [${event.completed}/${event.total}] ${packageKey}${errStr}`
-              process.stdout.write(`\r\x1b[K${line}`)
+          // Fetch with progress, caching waits for the packages before it
+          if (isNext()) {
+            process.stdout.write(`\r\x1b[K  [....] ${packageKey}`)
+          }
+          const result = await fetchPackageDocs(source, {
+            concurrency,
+            conditional: getConditionalCache(packageKey),
+            skipOptional,
+            onProgress: (event) => {
+              if (isNext()) {
+                writeDocsProgress(packageKey, event)
+              }
+            },
+          })
+          return { source, skipOptional, result }
+        },
+        ({ source, skipOptional, result }, packageKey) => {
+          if (!result) {
+            // Already cached, just create symlink
+            createPackageLink(cwd, packageKey, linkMode)
+            process.stdout.write(`\r\x1b[K  [${actionLabel}] ${packageKey}\n`)
+            if (syncLockEntry(lock, packageKey, relock)) {
+              driftCount++
             }
-          },
-        })
+            successCount++
+            return
+          }
 
-        if (!result.success) {
-          process.stdout.write(`\r\x1b[K  [fail] ${packageKey} - ${result.error}\n`)
-          failCount++
-          continue
-        }
+          if (!result.success) {
+            process.stdout.write(`\r\x1b[K  [fail] ${packageKey} - ${result.error}\n`)
+            failCount++
+            return
+          }
 
-        cachePackage(packageKey, url, result.doc!, result.rawLlmsTxt!, result.docFiles!)
-        createPackageLink(cwd, packageKey, linkMode)
+          const sourceUrl = typeof source === 'string' ? source : source.git
+          cacheFetchResult(packageKey, sourceUrl, result, { skipOptional })
+          createPackageLink(cwd, packageKey, linkMode)
 
-        const docCount = result.docFiles?.size || 0
-        const errStr = lastErrors > 0 ? `, ${lastErrors} error${lastErrors > 1 ? 's' : ''}` : ''
-        process.stdout.write(`\r\x1b[K  [ ok ] ${packageKey} (${docCount} docs${errStr})\n`)
-        successCount++
-      }
+          process.stdout.write(`\r\x1b[K  [ ok ] ${packageKey} (${formatDocCount(result)})\n`)
+          if (syncLockEntry(lock, packageKey, relock)) {
+            driftCount++
+          }
+          successCount++
+        },
+      )
 
+      writeProjectLock(cwd, lock)
       ensureGitignore(cwd)
+      registerProject(cwd)
       console.log(`\nDone: ${successCount} installed, ${failCount} failed`)
+      logDriftSummary(driftCount)
       return
     }
 
@@ -216,84 +363,109 @@ export default define({
     if (cliLinkMode) {
       config.linkMode = cliLinkMode
     }
-    const linkMode = cliLinkMode || config.linkMode || 'link'
+    const linkMode = cliLinkMode || config.linkMode || loadConfig().linkMode
     const actionLabel = linkMode === 'copy' ? 'copy' : 'link'
+    const lock = getOrCreateProjectLock(cwd)
     let successCount = 0
     let failCount = 0
+    let driftCount = 0
+
+    await asyncPoolInOrder(
+      concurrency ?? loadConfig().concurrency,
+      packagesToInstall,
+      async (packageKey, isNext) => {
+        // Use full key including version
+        const { name } = parsePackageKey(packageKey)
+        const skipOptional = skipOptionalFlag || config.packages[packageKey]?.skipOptional || false
+
+        // Already cached, the URL is only needed for the config
+        if (!force && isCached(packageKey)) {
+          const url = config.packages[packageKey] ? null : await resolvePackageUrl(name)
+          return { cached: true, url, skipOptional } as const
+        }
 
-    for (const pkg of packagesToInstall) {
-      const { name, version } = parsePackageKey(pkg)
-      const packageKey = pkg // Use full key including version
-
-      // Check if already cached
-      if (!force && isCached(packageKey)) {
-        // Already cached - ensure in config and create symlink
-        if (!config.packages[packageKey]) {
-          // Need to resolve URL for config
-          const url = await resolvePackageUrl(name)
-          if (url) {
-            config.packages[packageKey] = { url }
-          }
+        // Only the package printed next shows its progress, the others would overwrite it
+        if (isNext()) {
+          process.stdout.write(`\r\x1b[K  [....] ${packageKey}`)
         }
-        createPackageLink(cwd, packageKey, linkMode)
-        console.log(`  [${actionLabel}] ${packageKey} (already cached)`)
-        successCount++
-        continue
-      }
 
-      process.stdout.write(`  [....] ${packageKey}`)
+        // Resolve URL from npm if not in config
+        let entry = config.packages[packageKey]
+        if (!entry) {
+          const url = manualUrl ? validateSource(manualUrl) : await resolvePackageUrl(name)
+          if (!url) {
+            return { cached: false, entry: null, skipOptional } as const
+          }
+          entry = { url }
+        }
 
-      // Resolve URL from npm if not in config
-      let url = config.packages[packageKey]?.url
-      if (!url) {
-        if (manualUrl) {
-          url = validateUrl(manualUrl)
-        } else {
-          url = await resolvePackageUrl(name)
+        // Local sources are stored relative in erudita.json, but cached with their absolute URL
+        const source = getPackageSource(entry, cwd)
+        const result = await fetchPackageDocs(source, {
+          concurrency,
+          conditional: getConditionalCache(packageKey),
+          skipOptional,
+          onProgress: (event) => {
+            if (isNext()) {
+              writeDocsProgress(packageKey, event)
+            }
+          },
+        })
+        return { cached: false, entry, source, result, skipOptional } as const
+      },
+      (outcome, packageKey) => {
+        const { skipOptional } = outcome
+        if (outcome.cached) {
+          // Ensure in config and create symlink
+          if (outcome.url) {
+            config.packages[packageKey] = skipOptional
+              ? { url: outcome.url, skipOptional }
+              : { url: outcome.url }
+          } else if (skipOptional && config.packages[packageKey]) {
+            config.packages[packageKey].skipOptional = true
+          }
+          createPackageLink(cwd, packageKey, linkMode)
+          process.stdout.write(`\r\x1b[K  [${actionLabel}] ${packageKey} (already cached)\n`)
+          if (syncLockEntry(lock, packageKey, relock)) {
+            driftCount++
+          }
+          successCount++
+          return
         }
-        if (!url) {
+
+        if (!outcome.entry) {
           process.stdout.write(`\r\x1b[K  [fail] ${packageKey} - could not find website URL\n`)
           failCount++
-          continue
+          return
+        }
+        const { entry, source, result } = outcome
+        if (!result.success) {
+          process.stdout.write(`\r\x1b[K  [fail] ${packageKey} - ${result.error}\n`)
+          failCount++
+          return
         }
-      }
-
-      // Fetch docs with progress
-      let lastErrors = 0
-      const result = await fetchPackageDocs(url, {
-        concurrency,
-        onProgress(event) {
-          if (event.phase === 'docs') {
-            lastErrors = event.errors
-            const errStr =
-              event.errors > 0 ? ` (${event.errors} error${event.errors > 1 ? 's' : ''})` : ''
-            const line = `  [${event.completed}/${event.total}] ${packageKey}${errStr}`
-            process.stdout.write(`\r\x1b[K${line}`)
-          }
-        },
-      })
-
-      if (!result.success) {
-        process.stdout.write(`\r\x1b[K  [fail] ${packageKey} - ${result.error}\n`)
-        failCount++
-        continue
-      }
 
-      // Cache and link
-      cachePackage(packageKey, url, result.doc!, result.rawLlmsTxt!, result.docFiles!)
-      config.packages[packageKey] = { url }
-      createPackageLink(cwd, packageKey, linkMode)
+        // Cache and link
+        const sourceUrl = typeof source === 'string' ? source : source.git
+        cacheFetchResult(packageKey, sourceUrl, result, { skipOptional })
+        config.packages[packageKey] = skipOptional ? { ...entry, skipOptional } : entry
+        createPackageLink(cwd, packageKey, linkMode)
 
-      const docCount = result.docFiles?.size || 0
-      const errStr = lastErrors > 0 ? `, ${lastErrors} error${lastErrors > 1 ? 's' : ''}` : ''
-      process.stdout.write(`\r\x1b[K  [ ok ] ${packageKey} (${docCount} docs${errStr})\n`)
-      successCount++
-    }
+        process.stdout.write(`\r\x1b[K  [ ok ] ${packageKey} (${formatDocCount(result)})\n`)
+        if (syncLockEntry(lock, packageKey, relock)) {
+          driftCount++
+        }
+        successCount++
+      },
+    )
 
-    // Save config and ensure gitignore
+    // Save config and lock, ensure gitignore
     writeProjectConfig(cwd, config)
+    writeProjectLock(cwd, lock)
     ensureGitignore(cwd)
+    registerProject(cwd)
 
     console.log(`\nDone: ${successCount} installed, ${failCount} failed`)
+    logDriftSummary(driftCount)
   },
 })
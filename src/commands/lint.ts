@@ -0,0 +1,68 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { define } from 'gunshi'
+import { fetchRawFile, urlExists } from '../lib/fetcher.ts'
+import { lintLlmsTxt } from '../lib/llms-lint.ts'
+import type { LintOptions } from '../lib/llms-lint.ts'
+
+export default define({
+  name: 'lint',
+  description: 'Check an llms.txt file against the llms.txt proposal',
+  run: async (ctx) => {
+    const positionals = (ctx.positionals as string[]).filter((p) => p !== 'lint')
+    const target = positionals[0] as string | undefined
+
+    if (!target) {
+      console.log('Usage: erudita lint <url|file>')
+      return
+    }
+
+    let content: string | null
+    let options: LintOptions
+    if (/^https?:\/\//.test(target)) {
+      // The file is linted as served, an HTML page isn't turned into Markdown
+      const file = await fetchRawFile(target)
+      if (file && file.contentType && !/^text\//i.test(file.contentType)) {
+        console.log(`Error: ${target} is served as ${file.contentType}, not as text`)
+        process.exitCode = 1
+        return
+      }
+      content = file?.content ?? null
+      options = { baseUrl: target, linkExists: urlExists }
+    } else {
+      const filePath = resolve(target)
+      content = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null
+      options = {
+        baseUrl: pathToFileURL(filePath).href,
+        // Relative links of a local file point to other local files
+        linkExists: async (url) => !url.startsWith('file:') || existsSync(fileURLToPath(url)),
+      }
+    }
+
+    if (content === null) {
+      console.log(`Could not read ${target}`)
+      process.exitCode = 1
+      return
+    }
+
+    const diagnostics = await lintLlmsTxt(content, options)
+    if (diagnostics.length === 0) {
+      console.log(`${target}: no problems found`)
+      return
+    }
+
+    console.log(`${target}\n`)
+    for (const d of diagnostics) {
+      const position = `${d.line}:${d.column}`.padEnd(7)
+      console.log(`  ${position} ${d.severity.padEnd(7)} ${d.message}  ${d.rule}`)
+    }
+
+    const errors = diagnostics.filter((d) => d.severity === 'error').length
+    const warnings = diagnostics.length - errors
+    console.log(`\n${errors} error(s), ${warnings} warning(s)`)
+    if (errors > 0) {
+      process.exitCode = 1
+    }
+  },
+})
@@ -0,0 +1,12 @@
+import { define } from 'gunshi'
+import { serveMcp } from '../lib/mcp.ts'
+
+export default define({
+  name: 'mcp',
+  description: 'Serve cached documentation over the Model Context Protocol (stdio)',
+  rendering: { header: null },
+  run: async () => {
+    // stdout carries the protocol, nothing else may be printed there
+    await serveMcp(process.stdin, process.stdout)
+  },
+})
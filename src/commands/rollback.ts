@@ -0,0 +1,59 @@
+import { define } from 'gunshi'
+import { getCachedMeta, listSnapshots, restoreSnapshot } from '../lib/cache.ts'
+import { relinkPackage } from '../lib/project.ts'
+import type { PackageSnapshot } from '../types.ts'
+
+/**
+ * Find a snapshot by id, or by its position in `erudita history`
+ */
+function findSnapshot(snapshots: PackageSnapshot[], query: string): PackageSnapshot | undefined {
+  const byId = snapshots.find((s) => s.id === query)
+  if (byId) {
+    return byId
+  }
+  const index = parseInt(query, 10)
+  return String(index) === query ? snapshots[index - 1] : undefined
+}
+
+export default define({
+  name: 'rollback',
+  description: 'Restore a previous snapshot of a package',
+  run: async (ctx) => {
+    const positionals = (ctx.positionals as string[]).filter((p) => p !== 'rollback')
+    const [packageName, snapshotArg] = positionals as (string | undefined)[]
+
+    if (!packageName) {
+      console.log('Usage: erudita rollback <package> [snapshot]')
+      return
+    }
+
+    if (!getCachedMeta(packageName)) {
+      console.log(`Package "${packageName}" is not cached.`)
+      return
+    }
+
+    const snapshots = listSnapshots(packageName)
+    if (snapshots.length === 0) {
+      console.log(`No snapshots of "${packageName}" to roll back to.`)
+      return
+    }
+
+    // Default to the most recent snapshot
+    const snapshot = snapshotArg ? findSnapshot(snapshots, snapshotArg) : snapshots[0]
+    if (!snapshot) {
+      console.log(`Snapshot "${snapshotArg}" not found.`)
+      console.log(`Run: erudita history ${packageName}`)
+      return
+    }
+
+    restoreSnapshot(packageName, snapshot.id)
+    const date = new Date(snapshot.fetchedAt).toLocaleString()
+    console.log(`Restored ${packageName} from ${date} (${snapshot.docCount} docs).`)
+
+    const relinked = relinkPackage(packageName)
+    if (relinked.length > 0) {
+      console.log(`\nRelinked in ${relinked.length} project(s):`)
+      relinked.forEach((cwd) => console.log(`  ${cwd}`))
+    }
+  },
+})
@@ -0,0 +1,58 @@
+import { define } from 'gunshi'
+import { isCached } from '../lib/cache.ts'
+import { searchDocs } from '../lib/search.ts'
+
+export default define({
+  name: 'search',
+  description: 'Search cached documentation',
+  args: {
+    limit: {
+      type: 'string',
+      short: 'n',
+      description: 'Maximum number of results (default: 10)',
+    },
+  },
+  run: async (ctx) => {
+    const { limit: limitStr } = ctx.values
+    const limit = limitStr !== undefined ? Number(limitStr) : undefined
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      console.log(`Invalid --limit value "${limitStr}". Use a number of results, e.g. 10.`)
+      process.exitCode = 1
+      return
+    }
+    const positionals = (ctx.positionals as string[]).filter((p) => p !== 'search')
+    const [query, ...packages] = positionals
+
+    if (!query) {
+      console.log('Usage: erudita search "<query>" [packages...] [--limit <n>]')
+      return
+    }
+
+    const missing = packages.filter((pkg) => !isCached(pkg))
+    if (missing.length > 0) {
+      missing.forEach((pkg) => console.log(`Package "${pkg}" is not cached.`))
+      console.log(`Run: erudita fetch ${missing.join(' ')}`)
+      return
+    }
+
+    const results = searchDocs(query, { packages, limit })
+    if (results.length === 0) {
+      console.log(`No results for "${query}".`)
+      return
+    }
+
+    console.log(`Results for "${query}" (${results.length}):\n`)
+
+    results.forEach((result, i) => {
+      const location = result.file === 'llms.txt' ? result.file : `docs/${result.file}`
+      console.log(`  ${i + 1}. ${result.packageName} ${location}:${result.line}`)
+      if (result.headings.length > 0) {
+        console.log(`     ${result.headings.join(' > ')}`)
+      }
+      if (result.snippet) {
+        console.log(`     ${result.snippet}`)
+      }
+      console.log()
+    })
+  },
+})
@@ -1,5 +1,42 @@
 import { define } from 'gunshi'
-import { getCachedDoc, getCachedDocFile, getCachedLlmsTxt, getCachedMeta } from '../lib/cache.ts'
+import {
+  getCachedDoc,
+  getCachedEntryContent,
+  getCachedLlmsTxt,
+  getCachedMeta,
+} from '../lib/cache.ts'
+import { findEntry, getEntryLabel } from '../lib/llms-parser.ts'
+import type { LlmsDoc, LlmsEntry } from '../types.ts'
+
+/**
+ * Print the entries of a doc as a tree grouped by section
+ * Entries keep their index in the doc so they work with --entry
+ */
+function printEntryTree(doc: LlmsDoc, filter: (entry: LlmsEntry) => boolean): void {
+  for (const [i, docEntry] of doc.entries.entries()) {
+    if (!docEntry.section && filter(docEntry)) {
+      console.log(`  ${i}: ${docEntry.title}`)
+      if (docEntry.description) {
+        console.log(`     ${docEntry.description}`)
+      }
+    }
+  }
+
+  for (const section of doc.sections) {
+    const entries = section.entries.filter(filter)
+    if (entries.length === 0) {
+      continue
+    }
+    console.log(`  ${section.title}`)
+    entries.forEach((docEntry, n) => {
+      const last = n === entries.length - 1
+      console.log(`  ${last ? '└─' : '├─'} ${doc.entries.indexOf(docEntry)}: ${docEntry.title}`)
+      if (docEntry.description) {
+        console.log(`  ${last ? '  ' : '│ '}    ${docEntry.description}`)
+      }
+    })
+  }
+}
 
 export default define({
   name: 'show',
@@ -50,36 +87,24 @@ export default define({
 
     // Show specific entry
     if (entry) {
-      const index = parseInt(entry as string, 10)
-      let docEntry
-
-      if (!isNaN(index)) {
-        docEntry = doc.entries[index]
-      } else {
-        // Try to match by title
-        docEntry = doc.entries.find((e) =>
-          e.title.toLowerCase().includes((entry as string).toLowerCase()),
-        )
-      }
+      const docEntry = findEntry(doc.entries, entry as string)
 
       if (!docEntry) {
         console.log(`Entry "${entry}" not found.`)
         console.log('\nAvailable entries:')
         doc.entries.forEach((e, i) => {
-          console.log(`  ${i}: ${e.title}`)
+          console.log(`  ${i}: ${getEntryLabel(e)}`)
         })
         return
       }
 
       // Try to get cached content
-      const urlPath = new URL(docEntry.url, meta.sourceUrl).pathname
-      const filename = urlPath.split('/').pop() || 'doc.md'
-      const content = getCachedDocFile(packageName, filename)
+      const content = getCachedEntryContent(packageName, docEntry)
 
       if (content) {
         console.log(content)
       } else {
-        console.log(`# ${docEntry.title}\n`)
+        console.log(`# ${getEntryLabel(docEntry)}\n`)
         console.log(`URL: ${docEntry.url}`)
         if (docEntry.description) {
           console.log(`\n${docEntry.description}`)
@@ -95,15 +120,20 @@ export default define({
       console.log(`> ${doc.description}\n`)
     }
     console.log(`Source: ${meta.sourceUrl}`)
+    if (meta.git) {
+      console.log(`Commit: ${meta.git.commit}${meta.git.ref ? ` (${meta.git.ref})` : ''}`)
+    }
     console.log(`Fetched: ${new Date(meta.fetchedAt).toLocaleString()}`)
-    console.log(`\n## Documentation Entries (${doc.entries.length})\n`)
 
-    doc.entries.forEach((docEntry, i) => {
-      console.log(`  ${i}: ${docEntry.title}`)
-      if (docEntry.description) {
-        console.log(`     ${docEntry.description}`)
-      }
-    })
+    const optionalCount = doc.entries.filter((docEntry) => docEntry.optional).length
+    console.log(`\n## Documentation Entries (${doc.entries.length - optionalCount})\n`)
+    printEntryTree(doc, (docEntry) => !docEntry.optional)
+
+    if (optionalCount > 0) {
+      const skipped = meta.skipOptional ? ', not downloaded' : ''
+      console.log(`\n## Optional Entries (${optionalCount}${skipped})\n`)
+      printEntryTree(doc, (docEntry) => !!docEntry.optional)
+    }
 
     console.log('\nUse --entry <index> to view a specific entry.')
   },
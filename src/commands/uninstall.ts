@@ -5,6 +5,7 @@ import {
   removePackageLink,
   writeProjectConfig,
 } from '../lib/project.ts'
+import { readProjectLock, writeProjectLock } from '../lib/lock.ts'
 
 export default define({
   name: 'uninstall',
@@ -57,9 +58,13 @@ export default define({
       matched.forEach((key) => keysToRemove.add(key))
     }
 
+    const lock = readProjectLock(cwd)
     let removedCount = 0
     for (const key of keysToRemove) {
       delete config.packages[key]
+      if (lock) {
+        delete lock.packages[key]
+      }
       removePackageLink(cwd, key)
       console.log(`  Removed: ${key}`)
       removedCount++
@@ -71,6 +76,9 @@ export default define({
 
     if (removedCount > 0) {
       writeProjectConfig(cwd, config)
+      if (lock) {
+        writeProjectLock(cwd, lock)
+      }
     }
 
     console.log(`\nRemoved ${removedCount} package(s).`)
@@ -1,6 +1,35 @@
 import { define } from 'gunshi'
-import { cachePackage, getCachedMeta, listCached } from '../lib/cache.ts'
+import { asyncPoolInOrder } from '../lib/async-pool.ts'
+import {
+  cacheFetchResult,
+  getCachedDoc,
+  getCachedEntryContent,
+  getCachedMeta,
+  getConditionalCache,
+  listCached,
+  pruneCachedDocFiles,
+} from '../lib/cache.ts'
+import { loadConfig } from '../lib/config.ts'
 import { fetchPackageDocs } from '../lib/fetcher.ts'
+import { diffLlmsEntries, filterEntriesByPath, resolveUrl } from '../lib/llms-parser.ts'
+import { setDownloadConcurrency } from '../lib/transport.ts'
+
+/**
+ * Format the changes of an update, e.g. "2 added, 1 removed"
+ */
+function formatChanges(added: number, removed: number, changed: number): string {
+  const parts: string[] = []
+  if (added > 0) {
+    parts.push(`${added} added`)
+  }
+  if (removed > 0) {
+    parts.push(`${removed} removed`)
+  }
+  if (changed > 0) {
+    parts.push(`${changed} changed`)
+  }
+  return parts.length > 0 ? parts.join(', ') : 'no changes'
+}
 
 export default define({
   name: 'update',
@@ -14,12 +43,19 @@ export default define({
     concurrency: {
       type: 'string',
       short: 'c',
-      description: 'Number of concurrent downloads (default: 5)',
+      description: 'Number of concurrent downloads (default: concurrency config, 5)',
     },
   },
   run: async (ctx) => {
     const { all = false, concurrency: concurrencyStr } = ctx.values
-    const concurrency = concurrencyStr ? parseInt(concurrencyStr, 10) : undefined
+    const concurrency = concurrencyStr !== undefined ? Number(concurrencyStr) : undefined
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      console.log(
+        `Invalid --concurrency value "${concurrencyStr}". Use a number of downloads, e.g. 5.`,
+      )
+      process.exitCode = 1
+      return
+    }
     let packagesToUpdate = (ctx.positionals as string[]).filter((p) => p !== 'update')
 
     // If --all flag, update all cached packages
@@ -47,30 +83,71 @@ export default define({
     let successCount = 0
     let failCount = 0
 
-    for (const pkg of packagesToUpdate) {
-      const meta = getCachedMeta(pkg)
-      if (!meta) {
-        console.log(`  [skip] ${pkg} - not cached`)
-        continue
-      }
+    if (concurrency !== undefined) {
+      setDownloadConcurrency(concurrency)
+    }
 
-      process.stdout.write(`  [....] ${pkg}`)
+    // Packages are downloaded in parallel, then diffed and cached in order
+    await asyncPoolInOrder(
+      concurrency ?? loadConfig().concurrency,
+      packagesToUpdate,
+      async (pkg, isNext) => {
+        const meta = getCachedMeta(pkg)
+        if (!meta) {
+          return { meta, result: null }
+        }
 
-      // Fetch fresh docs using the stored source URL
-      const result = await fetchPackageDocs(meta.sourceUrl, { concurrency })
-      if (!result.success) {
-        process.stdout.write(`\r  [fail] ${pkg} - ${result.error}\n`)
-        failCount++
-        continue
-      }
+        // Only the package printed next shows its progress, the others would overwrite it
+        if (isNext()) {
+          process.stdout.write(`\r\x1b[K  [....] ${pkg}`)
+        }
 
-      // Update cache
-      cachePackage(pkg, meta.sourceUrl, result.doc!, result.rawLlmsTxt!, result.docFiles!)
+        // Fetch fresh docs using the stored source URL, or the git repository
+        // Unchanged docs are revalidated with conditional requests and not downloaded again
+        const result = await fetchPackageDocs(meta.git || meta.sourceUrl, {
+          concurrency,
+          conditional: getConditionalCache(pkg),
+          skipOptional: meta.skipOptional,
+        })
+        return { meta, result }
+      },
+      ({ meta, result }, pkg) => {
+        if (!meta || !result) {
+          process.stdout.write(`\r\x1b[K  [skip] ${pkg} - not cached\n`)
+          return
+        }
+        if (!result.success) {
+          process.stdout.write(`\r\x1b[K  [fail] ${pkg} - ${result.error}\n`)
+          failCount++
+          return
+        }
 
-      const docCount = result.docFiles?.size || 0
-      process.stdout.write(`\r  [ ok ] ${pkg} (${docCount} docs)\n`)
-      successCount++
-    }
+        // Entries of the cached llms.txt, filtered like the fetched ones
+        const previousDoc = getCachedDoc(pkg)
+        const previousEntries = meta.pathPrefix
+          ? filterEntriesByPath(previousDoc?.entries || [], meta.pathPrefix)
+          : previousDoc?.entries || []
+
+        const llmsTxtUrl = result.llmsTxtUrl || meta.sourceUrl
+        const diff = diffLlmsEntries(previousEntries, result.doc!.entries)
+        const changedCount = diff.kept.filter((entry) => {
+          const filename = result.docPaths!.get(resolveUrl(llmsTxtUrl, entry.url))
+          const content = filename ? result.docFiles!.get(filename) : undefined
+          return content !== undefined && content !== getCachedEntryContent(pkg, entry)
+        }).length
+
+        // Update cache
+        cacheFetchResult(pkg, meta.sourceUrl, result, { skipOptional: meta.skipOptional })
+
+        // Delete docs of entries removed upstream
+        pruneCachedDocFiles(pkg)
+
+        const docCount = (result.docFiles?.size || 0) + (result.notModified?.length || 0)
+        const changes = formatChanges(diff.added.length, diff.removed.length, changedCount)
+        process.stdout.write(`\r\x1b[K  [ ok ] ${pkg} (${docCount} docs, ${changes})\n`)
+        successCount++
+      },
+    )
 
     console.log(`\nDone: ${successCount} updated, ${failCount} failed`)
   },
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { asyncPool, asyncPoolInOrder, createTaskPool } from '../async-pool.ts'
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('asyncPool', () => {
+  it('returns results in the order of items', async () => {
+    const results = await asyncPool(2, [30, 10, 20], async (ms) => {
+      await delay(ms)
+      return ms
+    })
+    expect(results).toEqual([30, 10, 20])
+  })
+})
+
+describe('asyncPoolInOrder', () => {
+  it('hands results over in order while running items in parallel', async () => {
+    const events: string[] = []
+    await asyncPoolInOrder(
+      3,
+      [30, 10, 20],
+      async (ms) => {
+        events.push(`start ${ms}`)
+        await delay(ms)
+        events.push(`end ${ms}`)
+        return ms * 2
+      },
+      (result, ms) => events.push(`result ${ms} ${result}`),
+    )
+
+    expect(events.slice(0, 3)).toEqual(['start 30', 'start 10', 'start 20'])
+    expect(events.filter((event) => event.startsWith('result'))).toEqual([
+      'result 30 60',
+      'result 10 20',
+      'result 20 40',
+    ])
+    // The first item holds back the results after it
+    expect(events.indexOf('result 10 20')).toBeGreaterThan(events.indexOf('end 30'))
+  })
+
+  it('tells which item the next result waits for', async () => {
+    const next: number[] = []
+    await asyncPoolInOrder(
+      3,
+      [10, 30, 20],
+      async (ms, isNext) => {
+        await delay(ms)
+        if (isNext()) next.push(ms)
+      },
+      () => {},
+    )
+
+    // 20 ends while 30 still holds it back
+    expect(next).toEqual([10, 30])
+  })
+})
+
+describe('createTaskPool', () => {
+  it('runs at most concurrency tasks at once across callers', async () => {
+    const pool = createTaskPool(2)
+    let running = 0
+    let maxRunning = 0
+    const started: number[] = []
+    const task = (id: number) =>
+      pool(async () => {
+        started.push(id)
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await delay(5)
+        running--
+        return id
+      })
+
+    const results = await Promise.all([
+      Promise.all([task(1), task(2)]),
+      Promise.all([task(3), task(4), task(5)]),
+    ])
+
+    expect(results).toEqual([
+      [1, 2],
+      [3, 4, 5],
+    ])
+    expect(maxRunning).toBe(2)
+    expect(started).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('releases the slot of failed tasks', async () => {
+    const pool = createTaskPool(1)
+    await expect(pool(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    await expect(pool(async () => 'ok')).resolves.toBe('ok')
+  })
+
+  it('rejects a concurrency below 1', () => {
+    expect(() => createTaskPool(0)).toThrow('Invalid pool concurrency 0')
+    expect(() => createTaskPool(-1)).toThrow('Invalid pool concurrency -1')
+    expect(() => createTaskPool(NaN)).toThrow('Invalid pool concurrency NaN')
+  })
+})
@@ -1,19 +1,28 @@
 import { existsSync, mkdirSync, rmSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   _setCacheDir,
   cachePackage,
   clearCache,
   getCachedDoc,
+  getCachedDocFile,
+  getCachedEntryContent,
+  getCachedManifest,
   getCachedLlmsTxt,
   getCachedMeta,
   getCacheDir,
+  getConditionalCache,
   isCached,
   listCached,
+  listCachedDocFiles,
+  listSnapshots,
+  pruneCachedDocFiles,
   removeFromCache,
+  restoreSnapshot,
 } from '../cache.ts'
+import { _resetConfig } from '../config.ts'
 
 const testCacheDir = join(
   tmpdir(),
@@ -41,6 +50,18 @@ describe('cache', () => {
     it('returns the test cache directory', () => {
       expect(getCacheDir()).toBe(testCacheDir)
     })
+
+    it('uses ERUDITA_CACHE_DIR without a custom cache directory', () => {
+      _setCacheDir(null)
+      vi.stubEnv('ERUDITA_CACHE_DIR', testCacheDir)
+      _resetConfig()
+      try {
+        expect(getCacheDir()).toBe(testCacheDir)
+      } finally {
+        vi.unstubAllEnvs()
+        _resetConfig()
+      }
+    })
   })
 
   describe('cachePackage', () => {
@@ -49,6 +70,7 @@ describe('cache', () => {
         title: 'Test Package',
         description: 'A test',
         entries: [{ title: 'Guide', url: './guide.md' }],
+        sections: [],
       }
       const docFiles = new Map([['guide.md', '# Guide']])
 
@@ -58,7 +80,7 @@ describe('cache', () => {
     })
 
     it('stores llms.txt raw content', () => {
-      const doc = { title: 'Test', entries: [] }
+      const doc = { title: 'Test', entries: [], sections: [] }
       const rawContent = '# Raw llms.txt\n\n- [Link](./doc.md)'
 
       cachePackage('test-pkg', 'https://example.com', doc, rawContent, new Map())
@@ -68,7 +90,7 @@ describe('cache', () => {
     })
 
     it('handles scoped packages', () => {
-      const doc = { title: 'Scoped', entries: [] }
+      const doc = { title: 'Scoped', entries: [], sections: [] }
       cachePackage('@scope/pkg', 'https://example.com', doc, '# content', new Map())
 
       expect(isCached('@scope/pkg')).toBe(true)
@@ -85,6 +107,7 @@ describe('cache', () => {
       const doc = {
         title: 'Test',
         entries: [{ title: 'API', url: './api.md' }],
+        sections: [],
       }
       cachePackage('meta-test', 'https://test.com', doc, '# Test\n\n- [API](./api.md)', new Map())
 
@@ -96,6 +119,68 @@ describe('cache', () => {
     })
   })
 
+  describe('getConditionalCache', () => {
+    it('returns undefined without stored validators', () => {
+      cachePackage(
+        'no-validators',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map(),
+      )
+      expect(getConditionalCache('no-validators')).toBeUndefined()
+    })
+
+    it('returns validators and the cached llms.txt', () => {
+      const validators = { 'https://x.com/llms.txt': { etag: '"v1"' } }
+      cachePackage(
+        'validated',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map(),
+        {
+          validators,
+          docPaths: new Map(),
+        },
+      )
+      expect(getConditionalCache('validated')).toEqual({ validators, llmsTxt: '# X' })
+    })
+
+    it('returns the unsplit content of full-content files', () => {
+      const validators = { 'https://x.com/llms-full.txt': { etag: '"v1"' } }
+      cachePackage(
+        'full',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X index',
+        new Map(),
+        {
+          validators,
+          docPaths: new Map(),
+          fullLlmsTxt: '# X full',
+        },
+      )
+      expect(getCachedLlmsTxt('full')).toBe('# X index')
+      expect(getConditionalCache('full')).toEqual({ validators, llmsTxt: '# X full' })
+    })
+
+    it('returns undefined for caches without a manifest', () => {
+      const validators = { 'https://x.com/llms.txt': { etag: '"v1"' } }
+      cachePackage(
+        'legacy',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map(),
+        {
+          validators,
+        },
+      )
+      expect(getConditionalCache('legacy')).toBeUndefined()
+    })
+  })
+
   describe('getCachedDoc', () => {
     it('returns null for uncached packages', () => {
       expect(getCachedDoc('not-cached')).toBeNull()
@@ -105,6 +190,7 @@ describe('cache', () => {
       const doc = {
         title: 'Test',
         entries: [{ title: 'API', url: './api.md' }],
+        sections: [],
       }
       cachePackage(
         'doc-test',
@@ -128,8 +214,20 @@ describe('cache', () => {
     })
 
     it('returns all cached packages', () => {
-      cachePackage('pkg1', 'https://a.com', { title: 'A', entries: [] }, '# A', new Map())
-      cachePackage('pkg2', 'https://b.com', { title: 'B', entries: [] }, '# B', new Map())
+      cachePackage(
+        'pkg1',
+        'https://a.com',
+        { title: 'A', entries: [], sections: [] },
+        '# A',
+        new Map(),
+      )
+      cachePackage(
+        'pkg2',
+        'https://b.com',
+        { title: 'B', entries: [], sections: [] },
+        '# B',
+        new Map(),
+      )
 
       const cached = listCached()
       expect(cached).toHaveLength(2)
@@ -137,9 +235,207 @@ describe('cache', () => {
     })
   })
 
+  describe('manifest', () => {
+    const llmsTxt = '# X\n\n- [Guide](/guide/index.md)\n- [API](/api/index.md)\n- [Gone](/gone.md)'
+
+    function cacheWithManifest() {
+      cachePackage(
+        'manifest',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        llmsTxt,
+        new Map([
+          ['guide/index.md', '# Guide'],
+          ['api/index.md', '# API'],
+        ]),
+        {
+          llmsTxtUrl: 'https://x.com/llms.txt',
+          docPaths: new Map([
+            ['https://x.com/guide/index.md', 'guide/index.md'],
+            ['https://x.com/api/index.md', 'api/index.md'],
+            ['https://x.com/gone.md', 'gone.md'],
+          ]),
+          failed: ['https://x.com/gone.md'],
+        },
+      )
+    }
+
+    it('maps doc URLs to their files, size and status', () => {
+      cacheWithManifest()
+
+      expect(getCachedManifest('manifest')).toEqual({
+        version: 1,
+        docs: {
+          'https://x.com/guide/index.md': { file: 'guide/index.md', size: 7, status: 'ok' },
+          'https://x.com/api/index.md': { file: 'api/index.md', size: 5, status: 'ok' },
+          'https://x.com/gone.md': { file: 'gone.md', size: 0, status: 'failed' },
+        },
+      })
+      expect(listCachedDocFiles('manifest')).toEqual(['api/index.md', 'guide/index.md'])
+    })
+
+    it('marks failed docs with a previous file as stale', () => {
+      cachePackage(
+        'manifest',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        llmsTxt,
+        new Map([['gone.md', '# Gone']]),
+      )
+      cacheWithManifest()
+
+      expect(getCachedManifest('manifest')!.docs['https://x.com/gone.md'].status).toBe('stale')
+      expect(listCachedDocFiles('manifest')).toContain('gone.md')
+    })
+
+    it('reads entry content through the manifest', () => {
+      cacheWithManifest()
+
+      expect(getCachedEntryContent('manifest', { title: 'Guide', url: '/guide/index.md' })).toBe(
+        '# Guide',
+      )
+      expect(getCachedEntryContent('manifest', { title: 'API', url: '/api/index.md' })).toBe(
+        '# API',
+      )
+      expect(getCachedEntryContent('manifest', { title: 'Gone', url: '/gone.md' })).toBeNull()
+    })
+
+    it('falls back to the last path segment without a manifest', () => {
+      cachePackage(
+        'legacy',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        llmsTxt,
+        new Map([['index.md', '# Index']]),
+      )
+
+      expect(getCachedManifest('legacy')).toBeNull()
+      expect(getCachedEntryContent('legacy', { title: 'Guide', url: '/guide/index.md' })).toBe(
+        '# Index',
+      )
+    })
+
+    it('does not read files outside the docs directory', () => {
+      cacheWithManifest()
+      expect(getCachedDocFile('manifest', '../meta.json')).toBeNull()
+    })
+  })
+
+  describe('pruneCachedDocFiles', () => {
+    it('deletes doc files not in the manifest', () => {
+      cachePackage(
+        'prune',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map([
+          ['a.md', 'a'],
+          ['old/b.md', 'b'],
+        ]),
+      )
+      cachePackage(
+        'prune',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map(),
+        {
+          docPaths: new Map([['https://x.com/a.md', 'a.md']]),
+        },
+      )
+
+      expect(pruneCachedDocFiles('prune')).toEqual(['old/b.md'])
+      expect(listCachedDocFiles('prune')).toEqual(['a.md'])
+      expect(existsSync(join(getCacheDir(), 'packages', 'prune', 'docs', 'old'))).toBe(false)
+    })
+
+    it('keeps caches without a manifest untouched', () => {
+      cachePackage(
+        'prune',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map([['a.md', 'a']]),
+      )
+      expect(pruneCachedDocFiles('prune')).toEqual([])
+    })
+  })
+
+  describe('snapshots', () => {
+    let now = 1_000
+    beforeEach(() => {
+      vi.spyOn(Date, 'now').mockImplementation(() => now++)
+    })
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    function cacheVersion(version: number) {
+      const docFiles = new Map<string, string>()
+      for (let i = 0; i < version; i++) {
+        docFiles.set(`doc${i}.md`, `v${version}`)
+      }
+      cachePackage(
+        'snap',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        `# v${version}`,
+        docFiles,
+      )
+    }
+
+    it('snapshots the previous version when recaching', () => {
+      cacheVersion(1)
+      expect(listSnapshots('snap')).toEqual([])
+
+      cacheVersion(2)
+      const snapshots = listSnapshots('snap')
+      expect(snapshots).toHaveLength(1)
+      expect(snapshots[0]).toMatchObject({ sourceUrl: 'https://x.com', docCount: 1 })
+      expect(snapshots[0].id).toBe(String(snapshots[0].fetchedAt))
+    })
+
+    it('keeps the 5 most recent snapshots', () => {
+      for (let version = 1; version <= 8; version++) {
+        cacheVersion(version)
+      }
+      const snapshots = listSnapshots('snap')
+      expect(snapshots.map((s) => s.docCount)).toEqual([7, 6, 5, 4, 3])
+    })
+
+    it('restores a snapshot and keeps the replaced version', () => {
+      cacheVersion(1)
+      cacheVersion(2)
+      const [previous] = listSnapshots('snap')
+
+      expect(restoreSnapshot('snap', previous.id)).toBe(true)
+      expect(getCachedLlmsTxt('snap')).toBe('# v1')
+      expect(listCachedDocFiles('snap')).toEqual(['doc0.md'])
+      expect(listSnapshots('snap').map((s) => s.docCount)).toEqual([2])
+    })
+
+    it('returns false for unknown snapshots', () => {
+      cacheVersion(1)
+      expect(restoreSnapshot('snap', 'nope')).toBe(false)
+    })
+
+    it('removes snapshots with the package', () => {
+      cacheVersion(1)
+      cacheVersion(2)
+      removeFromCache('snap')
+      expect(listSnapshots('snap')).toEqual([])
+    })
+  })
+
   describe('removeFromCache', () => {
     it('removes cached package', () => {
-      cachePackage('to-remove', 'https://x.com', { title: 'X', entries: [] }, '# X', new Map())
+      cachePackage(
+        'to-remove',
+        'https://x.com',
+        { title: 'X', entries: [], sections: [] },
+        '# X',
+        new Map(),
+      )
       expect(isCached('to-remove')).toBe(true)
 
       const removed = removeFromCache('to-remove')
@@ -154,8 +450,20 @@ describe('cache', () => {
 
   describe('clearCache', () => {
     it('removes all cached packages', () => {
-      cachePackage('pkg1', 'https://a.com', { title: 'A', entries: [] }, '# A', new Map())
-      cachePackage('pkg2', 'https://b.com', { title: 'B', entries: [] }, '# B', new Map())
+      cachePackage(
+        'pkg1',
+        'https://a.com',
+        { title: 'A', entries: [], sections: [] },
+        '# A',
+        new Map(),
+      )
+      cachePackage(
+        'pkg2',
+        'https://b.com',
+        { title: 'B', entries: [], sections: [] },
+        '# B',
+        new Map(),
+      )
 
       clearCache()
 
@@ -0,0 +1,130 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  _resetConfig,
+  _setConfigDir,
+  CONFIG_FILE,
+  loadConfig,
+  readUserConfig,
+  resolveConfig,
+  setUserConfigValue,
+} from '../config.ts'
+
+const testConfigDir = join(
+  tmpdir(),
+  'erudita-test-config-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+function writeConfig(config: Record<string, unknown>) {
+  writeFileSync(join(testConfigDir, CONFIG_FILE), JSON.stringify(config))
+}
+
+describe('config', () => {
+  beforeEach(() => {
+    _setConfigDir(testConfigDir)
+    if (existsSync(testConfigDir)) {
+      rmSync(testConfigDir, { recursive: true, force: true })
+    }
+    mkdirSync(testConfigDir, { recursive: true })
+    for (const name of [
+      'ERUDITA_CONCURRENCY',
+      'ERUDITA_TIMEOUT',
+      'ERUDITA_RETRIES',
+      'ERUDITA_CACHE_DIR',
+      'ERUDITA_LINK_MODE',
+      'ERUDITA_MAX_SNAPSHOTS',
+    ]) {
+      vi.stubEnv(name, undefined)
+    }
+  })
+
+  afterEach(() => {
+    _setConfigDir(null)
+    vi.unstubAllEnvs()
+    if (existsSync(testConfigDir)) {
+      rmSync(testConfigDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('loadConfig', () => {
+    it('returns defaults without a config file', () => {
+      expect(loadConfig()).toMatchObject({
+        concurrency: 5,
+        timeout: 10000,
+        retries: 3,
+        linkMode: 'link',
+        maxSnapshots: 5,
+      })
+      expect(resolveConfig().concurrency.source).toBe('default')
+    })
+
+    it('applies project > env > user file > defaults', () => {
+      writeConfig({ concurrency: 2, timeout: 500, retries: 1, linkMode: 'copy' })
+      vi.stubEnv('ERUDITA_TIMEOUT', '1000')
+      vi.stubEnv('ERUDITA_LINK_MODE', 'link')
+
+      const resolved = resolveConfig({ project: { linkMode: 'copy' } })
+      expect(resolved.concurrency).toEqual({ value: 2, source: 'user' })
+      expect(resolved.linkMode).toEqual({ value: 'copy', source: 'project' })
+      expect(resolved.timeout).toEqual({ value: 1000, source: 'env' })
+      expect(resolved.retries).toEqual({ value: 1, source: 'user' })
+      expect(resolved.maxSnapshots).toEqual({ value: 5, source: 'default' })
+    })
+
+    it('ignores invalid values', () => {
+      writeConfig({ concurrency: 0, timeout: 'soon', linkMode: 'symlink', maxSnapshots: 0 })
+      vi.stubEnv('ERUDITA_RETRIES', 'many')
+
+      expect(loadConfig()).toMatchObject({
+        concurrency: 5,
+        timeout: 10000,
+        retries: 3,
+        linkMode: 'link',
+        maxSnapshots: 0,
+      })
+    })
+
+    it('resolves the cache directory', () => {
+      vi.stubEnv('ERUDITA_CACHE_DIR', 'relative/cache')
+      expect(loadConfig().cacheDir).toBe(join(process.cwd(), 'relative/cache'))
+    })
+
+    it('reads the config once until it is reset', () => {
+      writeConfig({ concurrency: 2 })
+      expect(loadConfig().concurrency).toBe(2)
+
+      writeConfig({ concurrency: 3 })
+      vi.stubEnv('ERUDITA_TIMEOUT', '1000')
+      expect(loadConfig()).toMatchObject({ concurrency: 2, timeout: 10000 })
+
+      _resetConfig()
+      expect(loadConfig()).toMatchObject({ concurrency: 3, timeout: 1000 })
+    })
+
+    it('ignores an invalid config file', () => {
+      writeFileSync(join(testConfigDir, CONFIG_FILE), 'nope')
+      expect(readUserConfig()).toEqual({})
+    })
+  })
+
+  describe('setUserConfigValue', () => {
+    it('parses and saves values', () => {
+      writeConfig({ timeout: 500 })
+
+      expect(setUserConfigValue('concurrency', '10')).toBe(10)
+      expect(JSON.parse(readFileSync(join(testConfigDir, CONFIG_FILE), 'utf-8'))).toEqual({
+        timeout: 500,
+        concurrency: 10,
+      })
+      expect(loadConfig().concurrency).toBe(10)
+    })
+
+    it('rejects invalid values', () => {
+      expect(setUserConfigValue('linkMode', 'symlink')).toBeUndefined()
+      expect(setUserConfigValue('retries', '1.5')).toBeUndefined()
+      expect(existsSync(join(testConfigDir, CONFIG_FILE))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { _setConfigDir } from '../config.ts'
+import {
+  CREDENTIALS_ENV,
+  CREDENTIALS_FILE,
+  getAuthHeaders,
+  getTokenEnvName,
+} from '../credentials.ts'
+
+const testConfigDir = join(
+  tmpdir(),
+  'erudita-test-config-credentials-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+function basic(credentials: string) {
+  return `Basic ${Buffer.from(credentials).toString('base64')}`
+}
+
+describe('getAuthHeaders', () => {
+  beforeEach(() => {
+    _setConfigDir(testConfigDir)
+    if (existsSync(testConfigDir)) {
+      rmSync(testConfigDir, { recursive: true, force: true })
+    }
+    mkdirSync(testConfigDir, { recursive: true })
+    writeFileSync(
+      join(testConfigDir, CREDENTIALS_FILE),
+      JSON.stringify({
+        'docs.internal.com': { token: '$DOCS_TOKEN' },
+        'wiki.corp.com:8443': { username: 'me', password: '${WIKI_PASSWORD}' },
+        '*.corp.com': { headers: { 'X-Api-Key': 'key-$CORP_KEY' } },
+      }),
+    )
+  })
+
+  afterEach(() => {
+    _setConfigDir(null)
+    vi.unstubAllEnvs()
+    if (existsSync(testConfigDir)) {
+      rmSync(testConfigDir, { recursive: true, force: true })
+    }
+  })
+
+  it('reads tokens, basic auth and headers from the credentials file', () => {
+    const env = { DOCS_TOKEN: 'abc', WIKI_PASSWORD: 'p@ss', CORP_KEY: '42' }
+
+    expect(getAuthHeaders('https://docs.internal.com/llms.txt', env)).toEqual({
+      Authorization: 'Bearer abc',
+    })
+    expect(getAuthHeaders('https://wiki.corp.com:8443/llms.txt', env)).toEqual({
+      Authorization: basic('me:p@ss'),
+    })
+    expect(getAuthHeaders('https://api.corp.com/llms.txt', env)).toEqual({
+      'X-Api-Key': 'key-42',
+    })
+    expect(getAuthHeaders('https://wiki.corp.com/llms.txt', env)).toEqual({
+      'X-Api-Key': 'key-42',
+    })
+    expect(getAuthHeaders('https://corp.com/llms.txt', env)).toEqual({})
+    expect(getAuthHeaders('https://vuejs.org/llms.txt', env)).toEqual({})
+  })
+
+  it('skips values with unset variables', () => {
+    expect(getAuthHeaders('https://docs.internal.com/llms.txt', {})).toEqual({})
+    expect(getAuthHeaders('https://api.corp.com/llms.txt', {})).toEqual({})
+  })
+
+  it('prefers ERUDITA_TOKEN_<HOST>', () => {
+    expect(getTokenEnvName('docs.internal.com')).toBe('ERUDITA_TOKEN_DOCS_INTERNAL_COM')
+    expect(
+      getAuthHeaders('https://docs.internal.com/llms.txt', {
+        DOCS_TOKEN: 'abc',
+        ERUDITA_TOKEN_DOCS_INTERNAL_COM: 'from-env',
+      }),
+    ).toEqual({ Authorization: 'Bearer from-env' })
+  })
+
+  it('prefers the ERUDITA_CREDENTIALS file', () => {
+    const ciFile = join(testConfigDir, 'ci-credentials.json')
+    writeFileSync(ciFile, JSON.stringify({ 'docs.internal.com': { token: 'ci' } }))
+    vi.stubEnv(CREDENTIALS_ENV, ciFile)
+
+    expect(getAuthHeaders('https://docs.internal.com/llms.txt', {})).toEqual({
+      Authorization: 'Bearer ci',
+    })
+  })
+
+  it('reads each credentials file once', () => {
+    const file = join(testConfigDir, 'once.json')
+    writeFileSync(file, JSON.stringify({ 'docs.internal.com': { token: 'first' } }))
+    vi.stubEnv(CREDENTIALS_ENV, file)
+    expect(getAuthHeaders('https://docs.internal.com/llms.txt', {})).toEqual({
+      Authorization: 'Bearer first',
+    })
+
+    writeFileSync(file, JSON.stringify({ 'docs.internal.com': { token: 'second' } }))
+    expect(getAuthHeaders('https://docs.internal.com/guide.md', {})).toEqual({
+      Authorization: 'Bearer first',
+    })
+  })
+
+  it('ignores file: URLs', () => {
+    expect(getAuthHeaders('file:///docs/llms.txt', {})).toEqual({})
+  })
+})
@@ -0,0 +1,99 @@
+import { existsSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { readTransitiveDeps } from '../dependency-tree.ts'
+
+const testDir = join(
+  tmpdir(),
+  'erudita-test-dependency-tree-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+function writePackage(dir: string, pkg: Record<string, unknown>) {
+  mkdirSync(join(testDir, dir), { recursive: true })
+  writeFileSync(join(testDir, dir, 'package.json'), JSON.stringify(pkg))
+}
+
+describe('readTransitiveDeps', () => {
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('walks node_modules like Node resolves packages', () => {
+    writePackage('node_modules/pinia', {
+      version: '3.0.1',
+      dependencies: { '@vue/devtools-api': '^7.0.0' },
+      peerDependencies: { vue: '^3.5.0' },
+    })
+    writePackage('node_modules/pinia/node_modules/@vue/devtools-api', {
+      version: '7.7.0',
+      dependencies: { 'perfect-debounce': '^1.0.0' },
+    })
+    writePackage('node_modules/@vue/devtools-api', { version: '6.6.4' })
+    writePackage('node_modules/perfect-debounce', { version: '1.0.0' })
+    writePackage('node_modules/vue', {
+      version: '3.5.13',
+      dependencies: { '@vue/shared': '3.5.13' },
+    })
+    writePackage('node_modules/@vue/shared', { version: '3.5.13' })
+
+    expect(readTransitiveDeps(testDir, ['.'], ['pinia'], new Map(), 0).size).toBe(0)
+    expect(Object.fromEntries(readTransitiveDeps(testDir, ['.'], ['pinia'], new Map(), 1))).toEqual(
+      { '@vue/devtools-api': '7.7.0', vue: '3.5.13' },
+    )
+    expect(
+      Object.fromEntries(readTransitiveDeps(testDir, ['.'], ['pinia', 'vue'], new Map(), 2)),
+    ).toEqual({
+      '@vue/devtools-api': '7.7.0',
+      '@vue/shared': '3.5.13',
+      'perfect-debounce': '1.0.0',
+    })
+  })
+
+  it('follows pnpm links to their real directory', () => {
+    writePackage('node_modules/.pnpm/pinia@3.0.1/node_modules/pinia', {
+      version: '3.0.1',
+      dependencies: { '@vue/devtools-api': '^7.0.0' },
+    })
+    writePackage('node_modules/.pnpm/pinia@3.0.1/node_modules/@vue/devtools-api', {
+      version: '7.7.0',
+    })
+    symlinkSync(
+      join(testDir, 'node_modules/.pnpm/pinia@3.0.1/node_modules/pinia'),
+      join(testDir, 'node_modules/pinia'),
+      'junction',
+    )
+
+    expect(Object.fromEntries(readTransitiveDeps(testDir, ['.'], ['pinia'], new Map(), 1))).toEqual(
+      { '@vue/devtools-api': '7.7.0' },
+    )
+  })
+
+  it('reads the lockfile without node_modules', () => {
+    writeFileSync(
+      join(testDir, 'package-lock.json'),
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          '': { dependencies: { pinia: '^3.0.0' } },
+          'node_modules/pinia': { version: '3.0.1', dependencies: { vue: '^3.5.0' } },
+          'node_modules/vue': { version: '3.5.13' },
+        },
+      }),
+    )
+
+    const versions = new Map([['pinia', '3.0.1']])
+    expect(Object.fromEntries(readTransitiveDeps(testDir, ['.'], ['pinia'], versions, 3))).toEqual({
+      vue: '3.5.13',
+    })
+  })
+})
@@ -1,13 +1,25 @@
-import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
+import { _setConfigDir } from '../config.ts'
 import {
   extractRootUrl,
   fetchLlmsTxt,
   fetchPackageDocs,
-  getFilenameFromUrl,
+  fetchRawFile,
+  findLlmsTxtLinks,
+  formatProgressNotes,
+  getDocPathFromUrl,
+  getDocPaths,
   getUrlPath,
+  isHtmlContent,
+  urlExists,
 } from '../fetcher.ts'
+import type { FetchProgressEvent } from '../../types.ts'
 
 const server = setupServer()
 
@@ -51,6 +63,8 @@ describe('fetchLlmsTxt', () => {
       http.get('https://example.com/llms-full.txt', () => {
         return new HttpResponse(null, { status: 404 })
       }),
+      // Nothing found by the other discovery steps either
+      http.get('*', () => new HttpResponse(null, { status: 404 })),
     )
 
     const result = await fetchLlmsTxt('https://example.com')
@@ -105,6 +119,8 @@ describe('fetchPackageDocs', () => {
       http.get('https://example.com/llms-full.txt', () => {
         return new HttpResponse(null, { status: 404 })
       }),
+      // Nothing found by the other discovery steps either
+      http.get('*', () => new HttpResponse(null, { status: 404 })),
     )
 
     const result = await fetchPackageDocs('https://example.com')
@@ -132,20 +148,437 @@ describe('fetchPackageDocs', () => {
     expect(result.success).toBe(true)
     expect(result.docFiles?.size).toBe(1)
     expect(result.docFiles?.has('exists.md')).toBe(true)
+    expect(result.failed).toEqual(['https://example.com/missing.md'])
+  })
+
+  it('keeps docs with the same filename in different directories', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text(`# Docs
+
+- [Guide](/guide/index.md)
+- [API](/api/index.md)`)
+      }),
+      http.get('https://example.com/guide/index.md', () => HttpResponse.text('# Guide')),
+      http.get('https://example.com/api/index.md', () => HttpResponse.text('# API')),
+    )
+
+    const result = await fetchPackageDocs('https://example.com')
+    expect(Object.fromEntries(result.docFiles!)).toEqual({
+      'guide/index.md': '# Guide',
+      'api/index.md': '# API',
+    })
+    expect(result.docPaths?.get('https://example.com/api/index.md')).toBe('api/index.md')
   })
 })
 
-describe('getFilenameFromUrl', () => {
-  it('extracts filename from URL path', () => {
-    expect(getFilenameFromUrl('https://example.com/docs/guide.md')).toBe('guide.md')
+describe('fetchPackageDocs with llms-full.txt', () => {
+  const fullContent = `# Pkg
+
+> Docs for pkg
+
+## Guide
+
+See [the API](./api.md).
+
+## API
+
+- [useThing](./use-thing.md)
+`
+
+  it('splits full-content files into docs without fetching links', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () => new HttpResponse(null, { status: 404 })),
+      http.get('https://example.com/llms-full.txt', () => HttpResponse.text(fullContent)),
+    )
+
+    const result = await fetchPackageDocs('https://example.com')
+    expect(result.success).toBe(true)
+    expect(result.doc).toEqual({
+      title: 'Pkg',
+      description: 'Docs for pkg',
+      entries: [
+        { title: 'Guide', url: 'https://example.com/llms-full.txt#guide' },
+        { title: 'API', url: 'https://example.com/llms-full.txt#api' },
+      ],
+      sections: [],
+    })
+    expect([...result.docFiles!.keys()]).toEqual(['guide.md', 'api.md'])
+    expect(result.docFiles!.get('api.md')).toBe('## API\n\n- [useThing](./use-thing.md)\n')
+    expect(result.docPaths!.get('https://example.com/llms-full.txt#api')).toBe('api.md')
+    expect(result.fullLlmsTxt).toBe(fullContent)
+    expect(result.rawLlmsTxt).toContain('- [Guide](https://example.com/llms-full.txt#guide)')
   })
 
-  it('handles URLs without path', () => {
-    expect(getFilenameFromUrl('https://example.com')).toBe('doc.md')
+  it('splits llms.txt files without link entries', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () =>
+        HttpResponse.text('# Intro\n\nHello\n\n# Usage\n\nUse it'),
+      ),
+    )
+
+    const result = await fetchPackageDocs('https://example.com')
+    expect(result.doc!.title).toBe('example.com')
+    expect(result.doc!.entries.map((e) => e.title)).toEqual(['Intro', 'Usage'])
+    expect(result.fullLlmsTxt).toBeDefined()
+  })
+
+  it('splits the cached full content when not modified', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () => new HttpResponse(null, { status: 404 })),
+      http.get('https://example.com/llms-full.txt', () => new HttpResponse(null, { status: 304 })),
+    )
+
+    const result = await fetchPackageDocs('https://example.com', {
+      conditional: {
+        validators: { 'https://example.com/llms-full.txt': { etag: '"v1"' } },
+        llmsTxt: fullContent,
+      },
+    })
+    expect([...result.docFiles!.keys()]).toEqual(['guide.md', 'api.md'])
+  })
+})
+
+describe('fetchPackageDocs with credentials', () => {
+  beforeEach(() => {
+    // No credentials file
+    _setConfigDir(join(tmpdir(), 'erudita-test-config-fetcher-' + Date.now()))
+  })
+
+  afterEach(() => {
+    _setConfigDir(null)
+    vi.unstubAllEnvs()
+  })
+
+  it('sends the auth headers of a host to that host only', async () => {
+    vi.stubEnv('ERUDITA_TOKEN_DOCS_PRIVATE_COM', 'secret')
+    const authorization: Record<string, string | null> = {}
+    server.use(
+      http.get('https://docs.private.com/llms.txt', ({ request }) => {
+        authorization['llms.txt'] = request.headers.get('authorization')
+        return HttpResponse.text('# Private\n\n- [Guide](./guide.md)\n- [Moved](./moved.md)')
+      }),
+      http.get('https://docs.private.com/guide.md', ({ request }) => {
+        authorization['guide.md'] = request.headers.get('authorization')
+        return HttpResponse.text('# Guide')
+      }),
+      http.get('https://docs.private.com/moved.md', () =>
+        HttpResponse.redirect('https://cdn.example.com/moved.md', 302),
+      ),
+      http.get('https://cdn.example.com/moved.md', ({ request }) => {
+        authorization['moved.md'] = request.headers.get('authorization')
+        return HttpResponse.text('# Moved')
+      }),
+    )
+
+    const result = await fetchPackageDocs('https://docs.private.com')
+    expect(result.docFiles?.get('moved.md')).toBe('# Moved')
+    expect(authorization).toEqual({
+      'llms.txt': 'Bearer secret',
+      'guide.md': 'Bearer secret',
+      'moved.md': null,
+    })
+  })
+})
+
+describe('fetchPackageDocs with throttling', () => {
+  it('retries throttled docs after Retry-After and reports it', async () => {
+    let attempts = 0
+    server.use(
+      http.get('https://busy.example.com/llms.txt', () => {
+        return HttpResponse.text('# Busy\n\n- [Guide](./guide.md)\n- [API](./api.md)')
+      }),
+      http.get('https://busy.example.com/guide.md', () => {
+        attempts++
+        return attempts === 1
+          ? new HttpResponse(null, { status: 429, headers: { 'Retry-After': '0' } })
+          : HttpResponse.text('# Guide')
+      }),
+      // Longer than erudita waits for, given up right away
+      http.get('https://busy.example.com/api.md', () => {
+        return new HttpResponse(null, { status: 503, headers: { 'Retry-After': '3600' } })
+      }),
+    )
+
+    const events: FetchProgressEvent[] = []
+    const result = await fetchPackageDocs('https://busy.example.com', {
+      onProgress: (event) => events.push(event),
+    })
+
+    expect(result.docFiles?.get('guide.md')).toBe('# Guide')
+    expect(result.failed).toEqual(['https://busy.example.com/api.md'])
+    expect(attempts).toBe(2)
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        throttled: 1,
+        retryAfter: 0,
+        url: 'https://busy.example.com/guide.md',
+      }),
+    )
+    expect(events.at(-1)).toMatchObject({ completed: 1, errors: 1, throttled: 1 })
+  })
+
+  it("doesn't time out requests queued by the host rate limit", async () => {
+    // One request every 100ms, the last docs wait longer than the timeout
+    vi.stubEnv('ERUDITA_HOST_RATE_LIMIT', '600')
+    vi.stubEnv('ERUDITA_TIMEOUT', '150')
+    // A single attempt, so no retry makes up for a request timed out while queued
+    vi.stubEnv('ERUDITA_RETRIES', '1')
+    const names = ['a', 'b', 'c', 'd', 'e']
+    server.use(
+      http.get('https://queued.example.com/llms.txt', () => {
+        return HttpResponse.text(
+          `# Queued\n\n${names.map((name) => `- [${name}](./${name}.md)`).join('\n')}`,
+        )
+      }),
+      http.get('https://queued.example.com/:name', ({ params }) => {
+        return HttpResponse.text(`# ${params.name}`)
+      }),
+    )
+
+    try {
+      const result = await fetchPackageDocs('https://queued.example.com')
+      expect(result.failed).toEqual([])
+      expect(result.docFiles?.size).toBe(names.length)
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('formats throttling for status lines', () => {
+    expect(
+      formatProgressNotes({
+        phase: 'docs',
+        total: 3,
+        completed: 1,
+        errors: 1,
+        throttled: 2,
+        retryAfter: 2500,
+      }),
+    ).toBe(' (1 error, 2 throttled, retrying in 3s)')
+    expect(formatProgressNotes({ phase: 'docs', total: 3, completed: 1, errors: 0 })).toBe('')
+  })
+})
+
+describe('fetchPackageDocs with file: links', () => {
+  const localDir = join(
+    tmpdir(),
+    'erudita-test-fetcher-local-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+  )
+
+  beforeEach(() => {
+    mkdirSync(join(localDir, 'docs'), { recursive: true })
+    writeFileSync(join(localDir, 'secret.md'), '# Secret')
+    writeFileSync(join(localDir, 'llms.txt'), '# Secret llms.txt')
+    writeFileSync(join(localDir, 'docs', 'guide.md'), '# Guide')
+  })
+
+  afterEach(() => {
+    rmSync(localDir, { recursive: true, force: true })
+  })
+
+  it("doesn't read local files linked by a remote llms.txt", async () => {
+    const secretUrl = pathToFileURL(join(localDir, 'secret.md')).href
+    server.use(
+      http.get('https://evil.example.com/llms.txt', () => {
+        return HttpResponse.text(`# Evil\n\n- [Secret](${secretUrl})`)
+      }),
+    )
+
+    const result = await fetchPackageDocs('https://evil.example.com')
+    expect(result.docFiles?.size).toBe(0)
+    expect(result.failed).toEqual([secretUrl])
+  })
+
+  it("doesn't follow homepage links to local llms.txt files", async () => {
+    const llmsTxtUrl = pathToFileURL(join(localDir, 'llms.txt')).href
+    server.use(
+      http.get('https://evil.example.com/', () => {
+        return HttpResponse.html(`<html><body><a href="${llmsTxtUrl}">llms.txt</a></body></html>`)
+      }),
+      http.get('*', () => new HttpResponse(null, { status: 404 })),
+    )
+
+    expect(await fetchLlmsTxt('https://evil.example.com')).toBeNull()
+  })
+
+  it('reads local docs inside the directory of a local llms.txt only', async () => {
+    writeFileSync(
+      join(localDir, 'docs', 'llms.txt'),
+      '# Local\n\n- [Guide](./guide.md)\n- [Secret](../secret.md)',
+    )
+
+    const result = await fetchPackageDocs(pathToFileURL(join(localDir, 'docs', 'llms.txt')).href)
+    expect([...result.docFiles!]).toEqual([['guide.md', '# Guide']])
+    expect(result.failed).toEqual([pathToFileURL(join(localDir, 'secret.md')).href])
+  })
+})
+
+describe('fetchPackageDocs with HTML docs', () => {
+  it('converts HTML pages to Markdown and records them', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text('# Lib\n\n- [Guide](./guide.html)\n- [API](./api.md)')
+      }),
+      http.get('https://example.com/guide.html', () => {
+        return HttpResponse.html(
+          '<html><body><nav>Menu</nav><main><h1>Guide</h1><p>Hello</p></main></body></html>',
+        )
+      }),
+      http.get('https://example.com/api.md', () => {
+        return HttpResponse.text('# API')
+      }),
+    )
+
+    const result = await fetchPackageDocs('https://example.com')
+    expect(result.docPaths?.get('https://example.com/guide.html')).toBe('guide.md')
+    expect(result.docFiles?.get('guide.md')).toBe('# Guide\n\nHello\n')
+    expect(result.docFiles?.get('api.md')).toBe('# API')
+    expect(result.htmlDocs).toEqual(['guide.md'])
+  })
+
+  it('keeps not modified docs recorded as converted', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text('# Lib\n\n- [Guide](./guide.html)')
+      }),
+      http.get('https://example.com/guide.html', () => {
+        return new HttpResponse(null, { status: 304 })
+      }),
+    )
+
+    const result = await fetchPackageDocs('https://example.com', {
+      conditional: {
+        validators: { 'https://example.com/guide.html': { etag: '"v1"' } },
+        llmsTxt: '',
+        htmlDocs: ['guide.md'],
+      },
+    })
+    expect(result.notModified).toEqual(['guide.md'])
+    expect(result.htmlDocs).toEqual(['guide.md'])
+  })
+})
+
+describe('fetchRawFile', () => {
+  it('keeps HTML pages as served', async () => {
+    const html = '<html><body><main><h1>Docs</h1><p>Hello</p></main></body></html>'
+    server.use(http.get('https://example.com/llms.txt', () => HttpResponse.html(html)))
+
+    expect(await fetchRawFile('https://example.com/llms.txt')).toEqual({
+      content: html,
+      contentType: 'text/html',
+    })
+  })
+})
+
+describe('urlExists', () => {
+  it('checks links with HEAD requests', async () => {
+    const requests: string[] = []
+    server.use(
+      http.all('https://example.com/*', ({ request }) => {
+        requests.push(`${request.method} ${new URL(request.url).pathname}`)
+        return request.url.endsWith('/missing.md')
+          ? new HttpResponse(null, { status: 404 })
+          : new HttpResponse(null)
+      }),
+    )
+
+    expect(await urlExists('https://example.com/guide.md')).toBe(true)
+    expect(await urlExists('https://example.com/missing.md')).toBe(false)
+    expect(requests).toEqual(['HEAD /guide.md', 'HEAD /missing.md'])
+  })
+
+  it('falls back to GET when the server does not support HEAD', async () => {
+    const requests: string[] = []
+    server.use(
+      http.all('https://example.com/*', ({ request }) => {
+        requests.push(`${request.method} ${new URL(request.url).pathname}`)
+        if (request.method === 'HEAD') {
+          return new HttpResponse(null, { status: request.url.endsWith('/a.md') ? 405 : 501 })
+        }
+        return request.url.endsWith('/b.md')
+          ? new HttpResponse(null, { status: 404 })
+          : HttpResponse.text('# A')
+      }),
+    )
+
+    expect(await urlExists('https://example.com/a.md')).toBe(true)
+    expect(await urlExists('https://example.com/b.md')).toBe(false)
+    expect(requests).toEqual(['HEAD /a.md', 'GET /a.md', 'HEAD /b.md', 'GET /b.md'])
+  })
+})
+
+describe('isHtmlContent', () => {
+  it('detects HTML documents whatever the content type', () => {
+    expect(isHtmlContent('text/plain', '<!DOCTYPE html><html></html>')).toBe(true)
+    expect(isHtmlContent('', '  <html lang="en"><body></body></html>')).toBe(true)
+    expect(isHtmlContent('text/html', '<div><p>Fragment</p></div>')).toBe(true)
+  })
+
+  it('keeps markdown and plain text', () => {
+    expect(isHtmlContent('text/markdown', '<!DOCTYPE html>')).toBe(false)
+    expect(isHtmlContent('text/html', '# Title\n\nSome <b>inline</b> html')).toBe(false)
+    expect(isHtmlContent('text/plain', 'Some <div></div> text')).toBe(false)
+  })
+})
+
+describe('getDocPathFromUrl', () => {
+  it('preserves the URL path', () => {
+    expect(getDocPathFromUrl('https://example.com/docs/guide.md')).toBe('docs/guide.md')
+    expect(getDocPathFromUrl('https://example.com/guide/index.md')).toBe('guide/index.md')
+  })
+
+  it('handles URLs without path or extension', () => {
+    expect(getDocPathFromUrl('https://example.com')).toBe('index.md')
+    expect(getDocPathFromUrl('https://example.com/guide/')).toBe('guide/index.md')
+    expect(getDocPathFromUrl('https://example.com/guide')).toBe('guide.md')
+    expect(getDocPathFromUrl('https://example.com/guide/intro.html')).toBe('guide/intro.md')
+  })
+
+  it('makes query strings and unsafe characters safe', () => {
+    expect(getDocPathFromUrl('https://example.com/api.md#usage')).toBe('api.md')
+    expect(getDocPathFromUrl('https://example.com/api.md?v=2')).toMatch(/^api\.[0-9a-f]{8}\.md$/)
+    expect(getDocPathFromUrl('https://example.com/api.md?v=2')).not.toBe(
+      getDocPathFromUrl('https://example.com/api.md?v=3'),
+    )
+    expect(getDocPathFromUrl('https://example.com/a%3Ab/../c.md')).toBe('c.md')
+    expect(getDocPathFromUrl('https://example.com/a%3Ab/c.md')).toBe('a_b/c.md')
+  })
+
+  it('stores docs from other hosts under their host', () => {
+    expect(
+      getDocPathFromUrl(
+        'https://raw.github.com/org/repo/README.md',
+        'https://example.com/llms.txt',
+      ),
+    ).toBe('raw.github.com/org/repo/README.md')
+    expect(getDocPathFromUrl('https://example.com/guide.md', 'https://example.com/llms.txt')).toBe(
+      'guide.md',
+    )
+  })
+
+  it('stores local docs relative to the llms.txt directory', () => {
+    const base = 'file:///srv/docs/llms.txt'
+    expect(getDocPathFromUrl('file:///srv/docs/guide/intro.md', base)).toBe('guide/intro.md')
+    expect(getDocPathFromUrl('file:///srv/docs/%40scope/pkg.md', base)).toBe('@scope/pkg.md')
+    expect(getDocPathFromUrl('file:///srv/other.md', base)).toBe('srv/other.md')
   })
 
   it('handles invalid URLs gracefully', () => {
-    expect(getFilenameFromUrl('not-a-url')).toBe('doc.md')
+    expect(getDocPathFromUrl('not-a-url')).toBe('doc.md')
+  })
+})
+
+describe('getDocPaths', () => {
+  it('gives paths differing only by case a unique suffix', () => {
+    const paths = getDocPaths([
+      'https://example.com/Guide.md',
+      'https://example.com/guide.md',
+      'https://example.com/Guide.md',
+    ])
+    expect(paths.size).toBe(2)
+    expect(paths.get('https://example.com/Guide.md')).toBe('Guide.md')
+    expect(paths.get('https://example.com/guide.md')).toMatch(/^guide\.[0-9a-f]{8}\.md$/)
   })
 })
 
@@ -230,6 +663,8 @@ describe('fetchLlmsTxt root domain fallback', () => {
       http.get('https://example.com/llms-full.txt', () => {
         return new HttpResponse(null, { status: 404 })
       }),
+      // Nothing found by the other discovery steps either
+      http.get('*', () => new HttpResponse(null, { status: 404 })),
     )
 
     const result = await fetchLlmsTxt('https://example.com')
@@ -250,6 +685,8 @@ describe('fetchLlmsTxt root domain fallback', () => {
       http.get('https://example.com/llms-full.txt', () => {
         return new HttpResponse(null, { status: 404 })
       }),
+      // Nothing found by the other discovery steps either
+      http.get('*', () => new HttpResponse(null, { status: 404 })),
     )
 
     const result = await fetchLlmsTxt('https://example.com/docs/section')
@@ -257,6 +694,103 @@ describe('fetchLlmsTxt root domain fallback', () => {
   })
 })
 
+describe('fetchLlmsTxt discovery chain', () => {
+  const notFound = http.get('*', () => new HttpResponse(null, { status: 404 }))
+
+  it('records direct hits', async () => {
+    server.use(http.get('https://example.com/llms.txt', () => HttpResponse.text('# Docs')))
+
+    const result = await fetchLlmsTxt('https://example.com')
+    expect(result?.discovery).toBe('direct')
+  })
+
+  it('strips fragments and tries /docs on the root domain', async () => {
+    server.use(
+      http.get('https://example.com/docs/llms.txt', () => HttpResponse.text('# Docs')),
+      notFound,
+    )
+
+    const result = await fetchLlmsTxt('https://example.com/#readme')
+    expect(result).toMatchObject({
+      url: 'https://example.com/docs/llms.txt',
+      discovery: 'docs-path',
+    })
+  })
+
+  it('tries the docs subdomain', async () => {
+    server.use(
+      http.get('https://docs.example.com/llms-full.txt', () => HttpResponse.text('# Docs')),
+      notFound,
+    )
+
+    const result = await fetchLlmsTxt('https://www.example.com')
+    expect(result).toMatchObject({
+      url: 'https://docs.example.com/llms-full.txt',
+      discovery: 'docs-subdomain',
+    })
+  })
+
+  it('follows llms.txt links of the homepage', async () => {
+    server.use(
+      http.get('https://example.com/', () =>
+        HttpResponse.html(
+          '<html><head><link rel="alternate" type="text/markdown" href="/static/llms.txt"></head></html>',
+        ),
+      ),
+      http.get('https://example.com/static/llms.txt', () => HttpResponse.text('# Docs')),
+      notFound,
+    )
+
+    const result = await fetchLlmsTxt('https://example.com')
+    expect(result).toMatchObject({
+      url: 'https://example.com/static/llms.txt',
+      discovery: 'homepage-link',
+    })
+  })
+
+  it('reads llms.txt from the default branch of GitHub repositories', async () => {
+    server.use(
+      http.get('https://raw.githubusercontent.com/org/repo/HEAD/docs/llms.txt', () =>
+        HttpResponse.text('# Docs'),
+      ),
+      notFound,
+    )
+
+    const result = await fetchPackageDocs('https://github.com/org/repo#readme')
+    expect(result).toMatchObject({
+      success: true,
+      llmsTxtUrl: 'https://raw.githubusercontent.com/org/repo/HEAD/docs/llms.txt',
+      discovery: 'github',
+    })
+  })
+
+  it('ignores HTML pages served at llms.txt paths', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () =>
+        HttpResponse.html('<!doctype html><html><body><h1>#1 framework</h1></body></html>'),
+      ),
+      http.get('https://example.com/docs/llms.txt', () => HttpResponse.text('# Docs')),
+      notFound,
+    )
+
+    const result = await fetchLlmsTxt('https://example.com')
+    expect(result?.discovery).toBe('docs-path')
+  })
+})
+
+describe('findLlmsTxtLinks', () => {
+  it('finds alternate markdown links and llms.txt links', () => {
+    const html = `<link rel="alternate" type="application/rss+xml" href="/feed.xml">
+<link rel="alternate" type="text/markdown" href="/index.md">
+<a href="https://cdn.example.com/llms-full.txt">Docs for LLMs</a>
+<a href="/blog/llms">Blog</a>`
+    expect(findLlmsTxtLinks(html, 'https://example.com/')).toEqual([
+      'https://example.com/index.md',
+      'https://cdn.example.com/llms-full.txt',
+    ])
+  })
+})
+
 describe('fetchPackageDocs with path filtering', () => {
   it('filters entries by path prefix when using root domain fallback', async () => {
     server.use(
@@ -315,3 +849,86 @@ describe('fetchPackageDocs with path filtering', () => {
     expect(result.error).toBe('No documentation found for path /docs/section')
   })
 })
+
+describe('fetchPackageDocs conditional requests', () => {
+  it('stores validators of fetched URLs', async () => {
+    server.use(
+      http.get('https://example.com/llms.txt', () => {
+        return HttpResponse.text('# Docs\n\n- [Guide](./guide.md)', {
+          headers: { ETag: '"llms-v1"' },
+        })
+      }),
+      http.get('https://example.com/guide.md', () => {
+        return HttpResponse.text('# Guide', {
+          headers: { 'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT' },
+        })
+      }),
+    )
+
+    const result = await fetchPackageDocs('https://example.com')
+    expect(result.validators).toEqual({
+      'https://example.com/llms.txt': { etag: '"llms-v1"' },
+      'https://example.com/guide.md': { lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT' },
+    })
+    expect(result.notModified).toEqual([])
+  })
+
+  it('sends validators and keeps not modified files', async () => {
+    const received: Record<string, string | null> = {}
+    server.use(
+      http.get('https://example.com/llms.txt', ({ request }) => {
+        received.llms = request.headers.get('if-none-match')
+        return new HttpResponse(null, { status: 304, headers: { ETag: '"llms-v1"' } })
+      }),
+      http.get('https://example.com/guide.md', ({ request }) => {
+        received.guide = request.headers.get('if-modified-since')
+        return new HttpResponse(null, { status: 304 })
+      }),
+      http.get('https://example.com/api.md', ({ request }) => {
+        received.api = request.headers.get('if-none-match')
+        return HttpResponse.text('# API v2', { headers: { ETag: '"api-v2"' } })
+      }),
+    )
+
+    const result = await fetchPackageDocs('https://example.com', {
+      conditional: {
+        llmsTxt: '# Docs\n\n- [Guide](./guide.md)\n- [API](./api.md)',
+        validators: {
+          'https://example.com/llms.txt': { etag: '"llms-v1"' },
+          'https://example.com/guide.md': { lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT' },
+          'https://example.com/api.md': { etag: '"api-v1"' },
+        },
+      },
+    })
+
+    expect(received).toEqual({
+      llms: '"llms-v1"',
+      guide: 'Wed, 21 Oct 2015 07:28:00 GMT',
+      api: '"api-v1"',
+    })
+    expect(result.success).toBe(true)
+    expect(result.doc?.entries).toHaveLength(2)
+    expect(result.notModified).toEqual(['guide.md'])
+    expect([...result.docFiles!.keys()]).toEqual(['api.md'])
+    expect(result.validators).toEqual({
+      'https://example.com/llms.txt': { etag: '"llms-v1"' },
+      'https://example.com/guide.md': { lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT' },
+      'https://example.com/api.md': { etag: '"api-v2"' },
+    })
+  })
+
+  it('does not send conditional headers for unknown URLs', async () => {
+    let ifNoneMatch: string | null = 'unset'
+    server.use(
+      http.get('https://example.com/llms.txt', ({ request }) => {
+        ifNoneMatch = request.headers.get('if-none-match')
+        return HttpResponse.text('# Docs')
+      }),
+    )
+
+    await fetchPackageDocs('https://example.com', {
+      conditional: { llmsTxt: '# Old', validators: {} },
+    })
+    expect(ifNoneMatch).toBeNull()
+  })
+})
@@ -0,0 +1,126 @@
+import { execFileSync } from 'node:child_process'
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { _setCacheDir } from '../cache.ts'
+import { fetchPackageDocs } from '../fetcher.ts'
+import { getGitCheckoutDir, getGitLlmsTxtPath } from '../git.ts'
+
+const testDir = join(
+  tmpdir(),
+  'erudita-test-git-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-git-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+const workDir = join(testDir, 'work')
+const repoDir = join(testDir, 'repo.git')
+
+function git(args: string[], cwd: string): string {
+  return execFileSync(
+    'git',
+    ['-c', 'user.name=erudita', '-c', 'user.email=erudita@example.com', ...args],
+    { cwd, encoding: 'utf-8' },
+  ).trim()
+}
+
+let firstCommit: string
+let lastCommit: string
+
+describe('git sources', () => {
+  beforeAll(() => {
+    mkdirSync(join(workDir, 'docs'), { recursive: true })
+    git(['init', '--quiet', '--initial-branch', 'main'], workDir)
+    writeFileSync(join(workDir, 'llms.txt'), '# Lib\n\n- [Guide](./docs/guide.md)\n')
+    writeFileSync(join(workDir, 'docs/llms.txt'), '# Lib docs\n\n- [Guide](./guide.md)\n')
+    writeFileSync(join(workDir, 'docs/guide.md'), '# Guide v1')
+    git(['add', '-A'], workDir)
+    git(['commit', '--quiet', '-m', 'v1'], workDir)
+    git(['tag', 'v1.0.0'], workDir)
+    firstCommit = git(['rev-parse', 'HEAD'], workDir)
+
+    writeFileSync(join(workDir, 'docs/guide.md'), '# Guide v2')
+    git(['commit', '--quiet', '-am', 'v2'], workDir)
+    lastCommit = git(['rev-parse', 'HEAD'], workDir)
+
+    git(['clone', '--quiet', '--bare', workDir, repoDir], testDir)
+  })
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('reads llms.txt and linked docs from the default branch', async () => {
+    const result = await fetchPackageDocs({ git: repoDir })
+
+    expect(result.success).toBe(true)
+    expect(result.doc?.title).toBe('Lib')
+    expect(result.docFiles?.get('docs/guide.md')).toBe('# Guide v2')
+    expect(result.git).toEqual({ git: repoDir, commit: lastCommit })
+    expect(existsSync(join(getGitCheckoutDir(repoDir), 'llms.txt'))).toBe(true)
+  })
+
+  it('checks out a ref and a nested llms.txt', async () => {
+    const result = await fetchPackageDocs({ git: repoDir, ref: 'v1.0.0', path: 'docs/llms.txt' })
+
+    expect(result.success).toBe(true)
+    expect(result.doc?.title).toBe('Lib docs')
+    expect([...result.docFiles!]).toEqual([['guide.md', '# Guide v1']])
+    expect(result.git?.commit).toBe(firstCommit)
+  })
+
+  it('switches refs in an existing checkout', async () => {
+    await fetchPackageDocs({ git: repoDir })
+    const result = await fetchPackageDocs({ git: repoDir, ref: firstCommit })
+
+    expect(result.docFiles?.get('docs/guide.md')).toBe('# Guide v1')
+    expect(result.git?.commit).toBe(firstCommit)
+  })
+
+  it('rejects refs and repositories read as git options', async () => {
+    const marker = join(testDir, 'pwned')
+    const ref = await fetchPackageDocs({ git: repoDir, ref: `--upload-pack=touch ${marker}` })
+    const repo = await fetchPackageDocs({ git: `--upload-pack=touch ${marker}` })
+
+    expect(ref.success).toBe(false)
+    expect(ref.error).toContain('Invalid git ref')
+    expect(repo.success).toBe(false)
+    expect(repo.error).toContain('Invalid git repository')
+    expect(existsSync(marker)).toBe(false)
+  })
+
+  it('keeps the llms.txt path inside the checkout', async () => {
+    writeFileSync(join(testDir, 'outside.txt'), '# Outside\n\n- [Guide](./work/docs/guide.md)\n')
+    const result = await fetchPackageDocs({ git: repoDir, path: '../../../outside.txt' })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('outside of the repository')
+    expect(() => getGitLlmsTxtPath({ git: repoDir, path: '/etc/passwd' }, testDir)).toThrow()
+    expect(getGitLlmsTxtPath({ git: repoDir, path: 'docs/llms.txt' }, testDir)).toBe(
+      join(testDir, 'docs/llms.txt'),
+    )
+  })
+
+  it('returns an error for unknown refs', async () => {
+    const result = await fetchPackageDocs({ git: repoDir, ref: 'nope' })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain(`Could not check out nope of ${repoDir}`)
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { decodeEntities, htmlToMarkdown } from '../html-to-markdown.ts'
+
+describe('decodeEntities', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeEntities('a &amp; b &lt;T&gt; &#39;x&#x27; &hellip;')).toBe("a & b <T> 'x' …")
+  })
+
+  it('keeps unknown references', () => {
+    expect(decodeEntities('&unknown; &')).toBe('&unknown; &')
+  })
+})
+
+describe('htmlToMarkdown', () => {
+  it('keeps the main content and drops page chrome', () => {
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Guide | Lib</title>
+  <style>body { color: red }</style>
+  <script>window.analytics = {}</script>
+</head>
+<body>
+  <header><a href="/">Home</a></header>
+  <nav><ul><li><a href="/guide">Guide</a></li></ul></nav>
+  <main>
+    <h1>Guide <a class="header-anchor" href="#guide">#</a></h1>
+    <p>Install the <strong>lib</strong> with <code>pnpm add lib</code>.</p>
+    <script>console.log('ignored')</script>
+  </main>
+  <footer>Copyright</footer>
+</body>
+</html>`
+    expect(htmlToMarkdown(html)).toBe('# Guide\n\nInstall the **lib** with `pnpm add lib`.\n')
+  })
+
+  it('falls back to the body without its header and uses the title', () => {
+    const html = `<html><head><title>Lib &amp; co</title></head><body>
+<header>Site name</header>
+<div>Some <em>text</em><br>on two lines</div>
+</body></html>`
+    expect(htmlToMarkdown(html)).toBe('# Lib & co\n\nSome _text_\non two lines\n')
+  })
+
+  it('skips scripts closed in any case, after characters that change length in lowercase', () => {
+    const html = '<p>İstanbul</p><SCRIPT>let a = "</p>"</Script><p>After</p>'
+    expect(htmlToMarkdown(html)).toBe('İstanbul\n\nAfter\n')
+  })
+
+  it('converts links and images relative to the page', () => {
+    const html = '<p>See <a href="../api.html">the API</a> <img src="/logo.png" alt="Logo"></p>'
+    expect(htmlToMarkdown(html, 'https://example.com/guide/intro.html')).toBe(
+      'See [the API](https://example.com/api.html) ![Logo](https://example.com/logo.png)\n',
+    )
+  })
+
+  it('converts code blocks with their language', () => {
+    const html = `<pre class="shiki"><code class="language-ts"><span class="line">const a = 1 &lt; 2</span>
+<span class="line">  return a</span>
+</code></pre>`
+    expect(htmlToMarkdown(html)).toBe('```ts\nconst a = 1 < 2\n  return a\n```\n')
+  })
+
+  it('converts nested and ordered lists', () => {
+    const html = `<ul>
+  <li>One
+    <ol start="3"><li>Three</li><li>Four</li></ol>
+  </li>
+  <li><p>Two</p>
+</ul>`
+    expect(htmlToMarkdown(html)).toBe('- One\n  3. Three\n  4. Four\n- Two\n')
+  })
+
+  it('converts tables and blockquotes', () => {
+    const html = `<table>
+  <thead><tr><th>Option</th><th>Type</th></tr></thead>
+  <tbody><tr><td><code>mode</code></td><td>a | b</td></tr></tbody>
+</table>
+<blockquote><p>Note</p><p>Second</p></blockquote>`
+    expect(htmlToMarkdown(html)).toBe(
+      '| Option | Type |\n| --- | --- |\n| `mode` | a \\| b |\n\n> Note\n>\n> Second\n',
+    )
+  })
+})
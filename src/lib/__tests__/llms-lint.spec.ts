@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { lintLlmsTxt } from '../llms-lint.ts'
+
+describe('lintLlmsTxt', () => {
+  it('returns no diagnostics for a valid file', async () => {
+    const content = `# Pkg
+
+> Docs for pkg
+
+## Guide
+
+- [Intro](./intro.md): Start here
+- [API](https://example.com/api.md)
+`
+    expect(await lintLlmsTxt(content)).toEqual([])
+  })
+
+  it('reports a missing H1', async () => {
+    const diagnostics = await lintLlmsTxt('## Guide\n\n- [Intro](./intro.md)')
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ line: 1, column: 1, severity: 'error', rule: 'missing-h1' }),
+    ])
+  })
+
+  it('reports content before the H1', async () => {
+    const diagnostics = await lintLlmsTxt('\n  Hello\n# Pkg\n')
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ line: 2, column: 3, rule: 'content-before-h1' }),
+    ])
+  })
+
+  it('reports malformed links and link text with brackets', async () => {
+    const content = `# Pkg
+
+## Guide
+
+- [Intro](./intro.md
+- [Setup [beta]](./setup.md)
+- [Options [beta](./options.md)
+`
+    const diagnostics = await lintLlmsTxt(content)
+    expect(diagnostics.map((d) => [d.line, d.column, d.rule])).toEqual([
+      [5, 1, 'malformed-link'],
+      [6, 1, 'link-brackets'],
+      [7, 3, 'link-brackets'],
+    ])
+  })
+
+  it('reports duplicate URLs and empty sections as warnings', async () => {
+    const content = `# Pkg
+
+## Guide
+
+- [Intro](./intro.md)
+- [Intro again](intro.md)
+
+## Empty
+`
+    const diagnostics = await lintLlmsTxt(content, { baseUrl: 'https://example.com/llms.txt' })
+    expect(diagnostics).toEqual([
+      {
+        line: 6,
+        column: 17,
+        severity: 'warning',
+        rule: 'duplicate-url',
+        message: 'Duplicate URL, already listed on line 5',
+      },
+      {
+        line: 8,
+        column: 1,
+        severity: 'warning',
+        rule: 'empty-section',
+        message: 'Section "Empty" has no links',
+      },
+    ])
+  })
+
+  it('reports relative links that do not resolve', async () => {
+    const content = `# Pkg
+
+- [Intro](./intro.md)
+- [Missing](./missing.md)
+- [Absolute](https://other.com/missing.md)
+`
+    const checked: string[] = []
+    const diagnostics = await lintLlmsTxt(content, {
+      baseUrl: 'https://example.com/docs/llms.txt',
+      linkExists: async (url) => {
+        checked.push(url)
+        return url.endsWith('/intro.md')
+      },
+    })
+
+    expect(checked.sort()).toEqual([
+      'https://example.com/docs/intro.md',
+      'https://example.com/docs/missing.md',
+    ])
+    expect(diagnostics).toEqual([
+      {
+        line: 4,
+        column: 13,
+        severity: 'error',
+        rule: 'unresolved-link',
+        message: 'Relative link does not resolve: https://example.com/docs/missing.md',
+      },
+    ])
+  })
+})
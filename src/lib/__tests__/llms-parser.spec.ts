@@ -1,5 +1,33 @@
 import { describe, expect, it } from 'vitest'
-import { extractDocUrls, filterEntriesByPath, parseLlmsTxt, resolveUrl } from '../llms-parser.ts'
+import {
+  diffLlmsEntries,
+  extractDocUrls,
+  filterEntriesByPath,
+  findEntry,
+  parseLlmsTxt,
+  resolveUrl,
+  serializeLlmsTxt,
+  slugify,
+  splitLlmsFullTxt,
+  tokenizeLlmsTxt,
+} from '../llms-parser.ts'
+
+describe('tokenizeLlmsTxt', () => {
+  it('classifies lines with their position', () => {
+    const tokens = tokenizeLlmsTxt(
+      '# Pkg\n> Desc\n\n## Guide\n  - [Intro](./intro.md): Start\nText',
+    )
+    expect(tokens.map((t) => [t.type, t.line, t.column])).toEqual([
+      ['title', 1, 1],
+      ['quote', 2, 1],
+      ['blank', 3, 1],
+      ['section', 4, 1],
+      ['link', 5, 3],
+      ['text', 6, 1],
+    ])
+    expect(tokens[4]).toMatchObject({ text: 'Intro', url: './intro.md', description: 'Start' })
+  })
+})
 
 describe('parseLlmsTxt', () => {
   it('parses title from H1', () => {
@@ -32,22 +60,60 @@ describe('parseLlmsTxt', () => {
     const result = parseLlmsTxt(content)
     expect(result.entries).toHaveLength(3)
     expect(result.entries[0]).toEqual({
-      title: 'Getting Started - Quick Start',
+      title: 'Quick Start',
       url: './quick-start.md',
       description: 'Get up and running',
+      section: 'Getting Started',
     })
     expect(result.entries[1]).toEqual({
-      title: 'Getting Started - Installation',
+      title: 'Installation',
       url: './install.md',
       description: undefined,
+      section: 'Getting Started',
     })
     expect(result.entries[2]).toEqual({
-      title: 'API - Core API',
+      title: 'Core API',
       url: './api/core.md',
       description: 'Main API reference',
+      section: 'API',
     })
   })
 
+  it('keeps sections with their entries and prose', () => {
+    const content = `# Docs
+
+> Description
+
+Some details about the docs.
+
+## Guide
+
+Read these first.
+
+- [Intro](./intro.md)
+
+## API
+
+- [Core](./core.md)
+
+> Note: experimental`
+
+    const result = parseLlmsTxt(content)
+    expect(result.details).toBe('Some details about the docs.')
+    expect(result.sections).toEqual([
+      {
+        title: 'Guide',
+        content: 'Read these first.',
+        entries: [result.entries[0]],
+      },
+      {
+        title: 'API',
+        content: '> Note: experimental',
+        entries: [result.entries[1]],
+      },
+    ])
+  })
+
   it('handles entries without section headers', () => {
     const content = `# Docs
 
@@ -90,6 +156,33 @@ describe('parseLlmsTxt', () => {
   })
 })
 
+describe('parseLlmsTxt Optional section', () => {
+  it('marks entries of the Optional section', () => {
+    const doc = parseLlmsTxt(`# Pkg
+
+## Docs
+
+- [Guide](./guide.md)
+
+## Optional
+
+- [Blog](./blog.md): Release notes
+[Changelog](./changelog.md)
+`)
+    expect(doc.entries).toEqual([
+      { title: 'Guide', url: './guide.md', description: undefined, section: 'Docs' },
+      {
+        title: 'Blog',
+        url: './blog.md',
+        description: 'Release notes',
+        section: 'Optional',
+        optional: true,
+      },
+      { title: 'Changelog', url: './changelog.md', section: 'Optional', optional: true },
+    ])
+  })
+})
+
 describe('resolveUrl', () => {
   it('returns absolute URLs unchanged', () => {
     expect(resolveUrl('https://base.com', 'https://other.com/doc.md')).toBe(
@@ -119,6 +212,7 @@ describe('extractDocUrls', () => {
         { title: 'B', url: 'https://other.com/b.md' },
         { title: 'C', url: '/c.md' },
       ],
+      sections: [],
     }
     const urls = extractDocUrls(doc, 'https://example.com/llms.txt')
     expect(urls).toEqual([
@@ -196,3 +290,134 @@ describe('filterEntriesByPath', () => {
     expect(filtered).toHaveLength(2)
   })
 })
+
+describe('findEntry', () => {
+  const entries = [
+    { title: 'Intro', url: './intro.md', section: 'Guide' },
+    { title: 'Reference', url: './api.md', section: 'API' },
+  ]
+
+  it('finds by index', () => {
+    expect(findEntry(entries, '1')?.url).toBe('./api.md')
+  })
+
+  it('finds by case-insensitive title match', () => {
+    expect(findEntry(entries, 'intro')?.url).toBe('./intro.md')
+  })
+
+  it('matches the section of an entry', () => {
+    expect(findEntry(entries, 'api - ref')?.url).toBe('./api.md')
+  })
+
+  it('returns undefined when nothing matches', () => {
+    expect(findEntry(entries, 'nope')).toBeUndefined()
+  })
+})
+
+describe('diffLlmsEntries', () => {
+  it('compares entries by URL', () => {
+    const diff = diffLlmsEntries(
+      [
+        { title: 'A', url: './a.md' },
+        { title: 'B', url: './b.md' },
+      ],
+      [
+        { title: 'B renamed', url: './b.md' },
+        { title: 'C', url: './c.md' },
+      ],
+    )
+    expect(diff.added.map((e) => e.url)).toEqual(['./c.md'])
+    expect(diff.removed.map((e) => e.url)).toEqual(['./a.md'])
+    expect(diff.kept.map((e) => e.title)).toEqual(['B renamed'])
+  })
+})
+
+describe('splitLlmsFullTxt', () => {
+  it('splits concatenated documents on their H1', () => {
+    const { preamble, sections } = splitLlmsFullTxt(`# Introduction
+
+Welcome.
+
+## Install
+
+\`\`\`sh
+# not a heading
+npm i pkg
+\`\`\`
+
+# Routing
+
+Routes.
+`)
+    expect(preamble).toBe('')
+    expect(sections.map((s) => s.slug)).toEqual(['introduction', 'routing'])
+    expect(sections[0].content).toContain('# not a heading')
+    expect(sections[1].content).toBe('# Routing\n\nRoutes.\n')
+  })
+
+  it('keeps a single title as preamble and splits on H2', () => {
+    const { preamble, sections } = splitLlmsFullTxt(`# Pkg
+
+> Docs for pkg
+
+## Guide
+
+Text
+
+## Guide
+
+More text
+`)
+    expect(preamble).toBe('# Pkg\n\n> Docs for pkg')
+    expect(sections.map((s) => s.slug)).toEqual(['guide', 'guide-2'])
+  })
+
+  it('returns no sections without headings', () => {
+    expect(splitLlmsFullTxt('just text').sections).toEqual([])
+  })
+})
+
+describe('slugify', () => {
+  it('creates URL-safe slugs', () => {
+    expect(slugify('Getting Started: Vue 3!')).toBe('getting-started-vue-3')
+    expect(slugify('???')).toBe('section')
+  })
+})
+
+describe('serializeLlmsTxt', () => {
+  it('writes llms.txt that parses back to the same doc', () => {
+    const content = `# Pkg
+
+> Docs for pkg
+
+Some details.
+
+- [Overview](./overview.md)
+
+## Guide
+
+Read these first.
+
+- [Intro](./intro.md): Start here
+- [Install](./install.md)
+
+## Optional
+
+- [Blog](./blog.md)
+`
+    const doc = parseLlmsTxt(content)
+    expect(serializeLlmsTxt(doc)).toBe(content)
+    expect(parseLlmsTxt(serializeLlmsTxt(doc))).toEqual(doc)
+  })
+
+  it('writes entries of docs without sections', () => {
+    const doc = {
+      title: 'Pkg',
+      entries: [{ title: 'Guide [beta]', url: 'https://example.com/llms-full.txt#guide' }],
+      sections: [],
+    }
+    expect(serializeLlmsTxt(doc)).toBe(
+      '# Pkg\n\n- [Guide beta](https://example.com/llms-full.txt#guide)\n',
+    )
+  })
+})
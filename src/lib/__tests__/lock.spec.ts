@@ -0,0 +1,132 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { _setCacheDir, cachePackage } from '../cache.ts'
+import {
+  createLockEntry,
+  diffLockEntry,
+  formatLockDrift,
+  getOrCreateProjectLock,
+  hashContent,
+  readProjectLock,
+  writeProjectLock,
+} from '../lock.ts'
+
+const testDir = join(
+  tmpdir(),
+  'erudita-test-lock-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-lock-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+describe('lock', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    for (const dir of [testDir, testCacheDir]) {
+      if (existsSync(dir)) {
+        rmSync(dir, { recursive: true, force: true })
+      }
+      mkdirSync(dir, { recursive: true })
+    }
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    for (const dir of [testDir, testCacheDir]) {
+      if (existsSync(dir)) {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    }
+  })
+
+  describe('hashContent', () => {
+    it('returns a sha256 integrity string', () => {
+      expect(hashContent('hello')).toBe('sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=')
+    })
+  })
+
+  describe('readProjectLock / writeProjectLock', () => {
+    it('returns null for missing lock', () => {
+      expect(readProjectLock(testDir)).toBeNull()
+      expect(getOrCreateProjectLock(testDir)).toEqual({ lockfileVersion: 1, packages: {} })
+    })
+
+    it('writes packages sorted by key', () => {
+      const entry = { fetchedAt: 1, llmsTxt: 'sha256-a', docs: {} }
+      writeProjectLock(testDir, { lockfileVersion: 1, packages: { vue: entry, pinia: entry } })
+
+      const content = readFileSync(join(testDir, 'erudita.lock'), 'utf-8')
+      expect(content.endsWith('\n')).toBe(true)
+      expect(Object.keys(readProjectLock(testDir)!.packages)).toEqual(['pinia', 'vue'])
+    })
+
+    it('returns null for invalid JSON', () => {
+      writeFileSync(join(testDir, 'erudita.lock'), 'nope')
+      expect(readProjectLock(testDir)).toBeNull()
+    })
+  })
+
+  describe('createLockEntry', () => {
+    it('returns null for uncached packages', () => {
+      expect(createLockEntry('nope')).toBeNull()
+    })
+
+    it('hashes llms.txt and doc files', () => {
+      cachePackage(
+        'pkg',
+        'https://example.com/docs',
+        { title: 'Pkg', entries: [], sections: [] },
+        '# Pkg',
+        new Map([['guide.md', '# Guide']]),
+        { llmsTxtUrl: 'https://example.com/llms.txt', pathPrefix: '/docs' },
+      )
+
+      expect(createLockEntry('pkg')).toEqual({
+        resolved: 'https://example.com/llms.txt',
+        pathPrefix: '/docs',
+        fetchedAt: expect.any(Number),
+        llmsTxt: hashContent('# Pkg'),
+        docs: { 'guide.md': hashContent('# Guide') },
+      })
+    })
+  })
+
+  describe('diffLockEntry', () => {
+    const locked = {
+      resolved: 'https://example.com/llms.txt',
+      fetchedAt: 1,
+      llmsTxt: 'sha256-llms',
+      docs: { 'a.md': 'sha256-a', 'b.md': 'sha256-b' },
+    }
+
+    it('returns null when content matches', () => {
+      expect(diffLockEntry(locked, { ...locked, fetchedAt: 2 })).toBeNull()
+    })
+
+    it('reports added, removed and changed docs', () => {
+      const drift = diffLockEntry(locked, {
+        ...locked,
+        llmsTxt: 'sha256-other',
+        docs: { 'a.md': 'sha256-changed', 'c.md': 'sha256-c' },
+      })
+      expect(drift).toEqual({
+        llmsTxt: true,
+        added: ['c.md'],
+        removed: ['b.md'],
+        changed: ['a.md'],
+      })
+      expect(formatLockDrift(drift!)).toBe('llms.txt changed, 1 changed, 1 added, 1 removed')
+    })
+
+    it('reports a moved llms.txt', () => {
+      const drift = diffLockEntry(locked, {
+        ...locked,
+        resolved: 'https://example.com/llms-full.txt',
+      })
+      expect(formatLockDrift(drift!)).toBe('llms.txt moved to https://example.com/llms-full.txt')
+    })
+  })
+})
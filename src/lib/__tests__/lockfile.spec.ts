@@ -0,0 +1,362 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  cleanLockVersion,
+  findLockfile,
+  parseBunLock,
+  parsePackageLock,
+  parsePnpmLock,
+  parseYarnLock,
+  parsePackageLockGraph,
+  parsePnpmLockGraph,
+  readLockfileVersions,
+} from '../lockfile.ts'
+
+const testDir = join(
+  tmpdir(),
+  'erudita-test-lockfile-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+describe('cleanLockVersion', () => {
+  it('strips peer suffixes', () => {
+    expect(cleanLockVersion('3.4.0(typescript@5.3.3)')).toBe('3.4.0')
+    expect(cleanLockVersion('18.0.0_abc')).toBe('18.0.0')
+  })
+
+  it('keeps prerelease tags', () => {
+    expect(cleanLockVersion('4.0.0-beta.1')).toBe('4.0.0-beta.1')
+  })
+
+  it('returns null for non-registry versions', () => {
+    expect(cleanLockVersion('link:../pkg')).toBeNull()
+    expect(cleanLockVersion('workspace:*')).toBeNull()
+  })
+})
+
+describe('parsePnpmLock', () => {
+  it('reads v9 importers', () => {
+    const content = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      vue:
+        specifier: ^3.4.0
+        version: 3.4.0(typescript@5.3.3)
+    devDependencies:
+      '@vue/test-utils':
+        specifier: ^2.4.0
+        version: 2.4.1
+      local-pkg:
+        specifier: link:../local
+        version: link:../local
+
+  packages/a:
+    dependencies:
+      pinia:
+        specifier: ^2.0.0
+        version: 2.1.7
+
+packages:
+
+  vue@3.4.0:
+    resolution: {integrity: sha512-abc}
+`
+    const versions = parsePnpmLock(content)
+    expect(Object.fromEntries(versions)).toEqual({
+      vue: '3.4.0',
+      '@vue/test-utils': '2.4.1',
+    })
+    expect(Object.fromEntries(parsePnpmLock(content, 'packages/a'))).toEqual({ pinia: '2.1.7' })
+  })
+
+  it('reads v6 top-level dependencies', () => {
+    const content = `lockfileVersion: '6.0'
+
+dependencies:
+  vue:
+    specifier: ^3.3.0
+    version: 3.3.4
+`
+    expect(Object.fromEntries(parsePnpmLock(content))).toEqual({ vue: '3.3.4' })
+  })
+
+  it('reads v5 inline versions', () => {
+    const content = `lockfileVersion: 5.4
+
+specifiers:
+  vue: ^3.2.0
+
+dependencies:
+  vue: 3.2.47
+
+devDependencies:
+  '@types/node': 18.0.0_abc
+`
+    expect(Object.fromEntries(parsePnpmLock(content))).toEqual({
+      vue: '3.2.47',
+      '@types/node': '18.0.0',
+    })
+  })
+})
+
+describe('parsePackageLock', () => {
+  it('reads v3 packages', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app' },
+        'node_modules/vue': { version: '3.4.0' },
+        'node_modules/@vue/shared': { version: '3.4.0' },
+        'node_modules/vue/node_modules/nested': { version: '1.0.0' },
+        'node_modules/local': { resolved: '../local', link: true },
+      },
+    })
+    expect(Object.fromEntries(parsePackageLock(content))).toEqual({
+      vue: '3.4.0',
+      '@vue/shared': '3.4.0',
+    })
+  })
+
+  it('reads v1 dependencies', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: { vue: { version: '2.7.0' } },
+    })
+    expect(Object.fromEntries(parsePackageLock(content))).toEqual({ vue: '2.7.0' })
+  })
+})
+
+describe('parseYarnLock', () => {
+  it('reads classic lockfiles and matches package.json ranges', () => {
+    const content = `# yarn lockfile v1
+
+
+vue@^3.4.0:
+  version "3.4.5"
+  resolved "https://registry.yarnpkg.com/vue/-/vue-3.4.5.tgz"
+
+vue@^2.0.0:
+  version "2.7.16"
+
+"@vue/shared@3.4.5", "@vue/shared@^3.4.0":
+  version "3.4.5"
+`
+    expect(Object.fromEntries(parseYarnLock(content, { vue: '^3.4.0' }))).toEqual({
+      vue: '3.4.5',
+      '@vue/shared': '3.4.5',
+    })
+  })
+
+  it('reads berry lockfiles', () => {
+    const content = `__metadata:
+  version: 8
+
+"vue@npm:^3.4.0":
+  version: 3.4.5
+  resolution: "vue@npm:3.4.5"
+`
+    expect(Object.fromEntries(parseYarnLock(content, { vue: '^3.4.0' }))).toEqual({
+      vue: '3.4.5',
+    })
+  })
+
+  it('skips ambiguous packages without a range', () => {
+    const content = `a@^1.0.0:
+  version "1.0.0"
+
+a@^2.0.0:
+  version "2.0.0"
+`
+    expect(parseYarnLock(content, {}).has('a')).toBe(false)
+  })
+})
+
+describe('parseBunLock', () => {
+  it('reads hoisted packages', () => {
+    const content = `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": {
+      "dependencies": {
+        "vue": "^3.4.0",
+      },
+    },
+  },
+  "packages": {
+    "vue": ["vue@3.4.5", "", { "dependencies": {} }, "sha512-abc"],
+    "@vue/shared": ["@vue/shared@3.4.5", "", {}, "sha512-def"],
+    "vue/nested": ["nested@1.0.0", "", {}, "sha512-ghi"],
+  },
+}
+`
+    expect(Object.fromEntries(parseBunLock(content))).toEqual({
+      vue: '3.4.5',
+      '@vue/shared': '3.4.5',
+    })
+  })
+})
+
+describe('parsePnpmLockGraph', () => {
+  it('reads package dependencies of lockfile v9 snapshots', () => {
+    const content = [
+      "lockfileVersion: '9.0'",
+      '',
+      'packages:',
+      '',
+      '  pinia@3.0.1:',
+      '    resolution: {integrity: sha512-abc}',
+      '    peerDependencies:',
+      '      vue: ^3.5.0',
+      '',
+      'snapshots:',
+      '',
+      '  pinia@3.0.1(typescript@5.7.3)(vue@3.5.13):',
+      '    dependencies:',
+      "      '@vue/devtools-api': 7.7.0",
+      '      vue: 3.5.13(typescript@5.7.3)',
+      '',
+      "  '@vue/devtools-api@7.7.0': {}",
+      '',
+    ].join('\n')
+
+    expect(parsePnpmLockGraph(content)).toEqual(
+      new Map([
+        [
+          'pinia@3.0.1',
+          new Map([
+            ['@vue/devtools-api', '7.7.0'],
+            ['vue', '3.5.13'],
+          ]),
+        ],
+      ]),
+    )
+  })
+
+  it('reads lockfile v6 and v5 package keys', () => {
+    const content = [
+      'packages:',
+      '  /pinia@2.1.7:',
+      '    dependencies:',
+      '      vue: 3.4.5',
+      '  /vue/3.4.5:',
+      '    dependencies:',
+      "      '@vue/shared': 3.4.5",
+    ].join('\n')
+
+    const graph = parsePnpmLockGraph(content)
+    expect(graph.get('pinia@2.1.7')?.get('vue')).toBe('3.4.5')
+    expect(graph.get('vue@3.4.5')?.get('@vue/shared')).toBe('3.4.5')
+  })
+})
+
+describe('parsePackageLockGraph', () => {
+  it('resolves dependencies through nested node_modules', () => {
+    const graph = parsePackageLockGraph(
+      JSON.stringify({
+        packages: {
+          '': { dependencies: { pinia: '^3.0.0' } },
+          'node_modules/pinia': {
+            version: '3.0.1',
+            dependencies: { '@vue/devtools-api': '^7.0.0', vue: '^3.5.0' },
+          },
+          'node_modules/pinia/node_modules/@vue/devtools-api': { version: '7.7.0' },
+          'node_modules/@vue/devtools-api': { version: '6.6.4' },
+          'node_modules/vue': { version: '3.5.13' },
+        },
+      }),
+    )
+
+    expect(Object.fromEntries(graph.get('pinia@3.0.1')!)).toEqual({
+      '@vue/devtools-api': '7.7.0',
+      vue: '3.5.13',
+    })
+    expect(graph.get('@vue/devtools-api@7.7.0')?.size).toBe(0)
+  })
+})
+
+describe('readLockfileVersions', () => {
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('returns an empty map without a lockfile', () => {
+    expect(findLockfile(testDir)).toBeNull()
+    expect(readLockfileVersions(testDir).size).toBe(0)
+  })
+
+  it('prefers pnpm-lock.yaml over other lockfiles', () => {
+    writeFileSync(
+      join(testDir, 'pnpm-lock.yaml'),
+      `lockfileVersion: '6.0'\n\ndependencies:\n  vue:\n    specifier: ^3.4.0\n    version: 3.4.1\n`,
+    )
+    writeFileSync(
+      join(testDir, 'package-lock.json'),
+      JSON.stringify({ packages: { 'node_modules/vue': { version: '3.0.0' } } }),
+    )
+
+    expect(findLockfile(testDir)).toBe('pnpm-lock.yaml')
+    expect(readLockfileVersions(testDir).get('vue')).toBe('3.4.1')
+  })
+
+  it('merges the pnpm importers of workspace packages', () => {
+    writeFileSync(
+      join(testDir, 'pnpm-lock.yaml'),
+      [
+        "lockfileVersion: '9.0'",
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    devDependencies:',
+        '      vitest:',
+        '        specifier: ^4.0.0',
+        '        version: 4.0.18',
+        '',
+        '  packages/app:',
+        '    dependencies:',
+        '      vue:',
+        '        specifier: ^3.4.0',
+        '        version: 3.4.5',
+        '      vitest:',
+        '        specifier: ^3.0.0',
+        '        version: 3.2.0',
+        '',
+      ].join('\n'),
+    )
+
+    const versions = readLockfileVersions(testDir, ['.', 'packages/app'])
+    expect(Object.fromEntries(versions)).toEqual({ vitest: '4.0.18', vue: '3.4.5' })
+    expect(readLockfileVersions(testDir).get('vue')).toBeUndefined()
+  })
+
+  it('uses package.json ranges for yarn.lock', () => {
+    writeFileSync(
+      join(testDir, 'package.json'),
+      JSON.stringify({ dependencies: { vue: '^2.0.0' } }),
+    )
+    writeFileSync(
+      join(testDir, 'yarn.lock'),
+      `vue@^3.4.0:\n  version "3.4.5"\n\nvue@^2.0.0:\n  version "2.7.16"\n`,
+    )
+
+    expect(readLockfileVersions(testDir).get('vue')).toBe('2.7.16')
+  })
+
+  it('ignores unreadable lockfiles', () => {
+    writeFileSync(join(testDir, 'package-lock.json'), '{ not json')
+    expect(readLockfileVersions(testDir).size).toBe(0)
+  })
+})
@@ -0,0 +1,193 @@
+import { existsSync, mkdirSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { PassThrough } from 'node:stream'
+import { createInterface } from 'node:readline'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { _setCacheDir, cachePackage } from '../cache.ts'
+import { MCP_PROTOCOL_VERSION, handleMcpMessage, serveMcp } from '../mcp.ts'
+
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-mcp-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+/**
+ * Minimal in-process MCP client talking to the server over streams
+ */
+function createClient() {
+  const input = new PassThrough()
+  const output = new PassThrough()
+  const served = serveMcp(input, output)
+  const lines = createInterface({ input: output })[Symbol.asyncIterator]()
+  let nextId = 1
+
+  return {
+    async request(method: string, params?: Record<string, unknown>) {
+      const id = nextId++
+      input.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n')
+      const { value } = await lines.next()
+      const response = JSON.parse(value)
+      expect(response.id).toBe(id)
+      return response
+    },
+    notify(method: string) {
+      input.write(JSON.stringify({ jsonrpc: '2.0', method }) + '\n')
+    },
+    async callTool(name: string, args: Record<string, unknown> = {}) {
+      const response = await this.request('tools/call', { name, arguments: args })
+      return response.result as { content: { text: string }[]; isError?: boolean }
+    },
+    async close() {
+      input.end()
+      await served
+    },
+  }
+}
+
+describe('mcp server', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testCacheDir, { recursive: true })
+
+    cachePackage(
+      'pinia',
+      'https://pinia.vuejs.org',
+      { title: 'Pinia', entries: [], sections: [] },
+      '# Pinia\n\n> The Vue Store\n\n## Guide\n\n- [Defining Stores](./stores.md): Create stores\n- [Plugins](./plugins.md)',
+      new Map([['stores.md', '# Defining Stores\n\nUse defineStore() to create a store.']]),
+    )
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  it('initializes and lists tools', async () => {
+    const client = createClient()
+
+    const init = await client.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'test', version: '0.0.0' },
+    })
+    expect(init.result.protocolVersion).toBe(MCP_PROTOCOL_VERSION)
+    expect(init.result.serverInfo.name).toBe('erudita')
+    client.notify('notifications/initialized')
+
+    const list = await client.request('tools/list')
+    expect(list.result.tools.map((t: { name: string }) => t.name)).toEqual([
+      'list_packages',
+      'list_entries',
+      'read_entry',
+      'search_docs',
+    ])
+
+    await client.close()
+  })
+
+  it('lists packages and entries', async () => {
+    const client = createClient()
+
+    const packages = JSON.parse((await client.callTool('list_packages')).content[0].text)
+    expect(packages).toEqual([
+      expect.objectContaining({ name: 'pinia', sourceUrl: 'https://pinia.vuejs.org', entries: 2 }),
+    ])
+
+    const entries = JSON.parse(
+      (await client.callTool('list_entries', { package: 'pinia' })).content[0].text,
+    )
+    expect(entries.title).toBe('Pinia')
+    expect(entries.entries[0]).toEqual({
+      index: 0,
+      title: 'Defining Stores',
+      url: './stores.md',
+      description: 'Create stores',
+      section: 'Guide',
+    })
+
+    await client.close()
+  })
+
+  it('reads entries by index or title', async () => {
+    const client = createClient()
+
+    const byIndex = await client.callTool('read_entry', { package: 'pinia', entry: '0' })
+    expect(byIndex.content[0].text).toContain('defineStore()')
+
+    const byTitle = await client.callTool('read_entry', { package: 'pinia', entry: 'defining' })
+    expect(byTitle.content[0].text).toContain('defineStore()')
+
+    const notCached = await client.callTool('read_entry', { package: 'pinia', entry: 'plugins' })
+    expect(notCached.isError).toBe(true)
+
+    await client.close()
+  })
+
+  it('searches docs', async () => {
+    const client = createClient()
+
+    const result = await client.callTool('search_docs', { query: 'definestore' })
+    const hits = JSON.parse(result.content[0].text)
+    expect(hits[0]).toMatchObject({ packageName: 'pinia', file: 'stores.md' })
+
+    const missing = await client.callTool('search_docs', { query: 'x', packages: ['nope'] })
+    expect(missing.isError).toBe(true)
+
+    await client.close()
+  })
+
+  it('reports tool errors as failed tool results', async () => {
+    const client = createClient()
+
+    const result = await client.callTool('list_entries', { package: 'unknown' })
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe('Package "unknown" is not cached')
+
+    await client.close()
+  })
+})
+
+describe('handleMcpMessage', () => {
+  it('answers ping', () => {
+    expect(handleMcpMessage({ jsonrpc: '2.0', id: 1, method: 'ping' })).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {},
+    })
+  })
+
+  it('ignores notifications', () => {
+    expect(handleMcpMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull()
+  })
+
+  it('rejects unknown methods and tools', () => {
+    expect(handleMcpMessage({ jsonrpc: '2.0', id: 1, method: 'nope' })?.error?.code).toBe(-32601)
+    expect(
+      handleMcpMessage({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'nope' },
+      })?.error?.code,
+    ).toBe(-32602)
+  })
+
+  it('answers invalid JSON with a parse error', async () => {
+    const input = new PassThrough()
+    const output = new PassThrough()
+    const served = serveMcp(input, output)
+    input.end('{not json\n')
+    await served
+    expect(JSON.parse(output.read().toString())).toMatchObject({
+      id: null,
+      error: { code: -32700 },
+    })
+  })
+})
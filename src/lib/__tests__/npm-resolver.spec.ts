@@ -1,6 +1,10 @@
-import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
+import { _setConfigDir } from '../config.ts'
 import { extractWebsiteUrl, fetchNpmMeta, resolvePackageUrl } from '../npm-resolver.ts'
 
 const server = setupServer()
@@ -133,4 +137,77 @@ describe('resolvePackageUrl', () => {
     const url = await resolvePackageUrl('no-url-pkg')
     expect(url).toBeNull()
   })
+
+  it('uses source overrides before npm', async () => {
+    const configDir = join(
+      tmpdir(),
+      'erudita-test-config-resolver-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+    )
+    mkdirSync(configDir, { recursive: true })
+    writeFileSync(
+      join(configDir, 'sources.json'),
+      JSON.stringify({ '@vue/*': 'https://vuejs.org' }),
+    )
+    _setConfigDir(configDir)
+
+    try {
+      // No npm handler: requesting the registry would fail the test
+      expect(await resolvePackageUrl('@vue/reactivity')).toBe('https://vuejs.org')
+    } finally {
+      _setConfigDir(null)
+      rmSync(configDir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('fetchNpmMeta with .npmrc', () => {
+  const testDir = join(
+    tmpdir(),
+    'erudita-test-npmrc-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+  )
+  const originalCwd = process.cwd()
+
+  beforeEach(() => {
+    mkdirSync(join(testDir, 'project'), { recursive: true })
+    vi.stubEnv('NPM_CONFIG_USERCONFIG', join(testDir, 'user.npmrc'))
+    process.chdir(join(testDir, 'project'))
+  })
+
+  afterEach(() => {
+    process.chdir(originalCwd)
+    vi.unstubAllEnvs()
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('uses the scope registry and its token from a local registry stand-in', async () => {
+    vi.stubEnv('CORP_NPM_TOKEN', 'secret')
+    writeFileSync(
+      join(testDir, 'user.npmrc'),
+      '@corp:registry=https://npm.corp.com/repository/npm/\n' +
+        '//npm.corp.com/:_authToken=${CORP_NPM_TOKEN}\n',
+    )
+    let authorization: string | null = null
+    server.use(
+      http.get('https://npm.corp.com/repository/npm/:name', ({ request, params }) => {
+        authorization = request.headers.get('authorization')
+        return HttpResponse.json({ name: params.name, homepage: 'https://docs.corp.com' })
+      }),
+    )
+
+    expect(await resolvePackageUrl('@corp/ui')).toBe('https://docs.corp.com')
+    expect(authorization).toBe('Bearer secret')
+  })
+
+  it('prefers the project .npmrc registry', async () => {
+    writeFileSync(join(testDir, 'user.npmrc'), 'registry=https://user-mirror.example.com\n')
+    writeFileSync(join(testDir, 'project', '.npmrc'), 'registry=http://localhost:4873/\n')
+    server.use(
+      http.get('http://localhost:4873/vue', ({ request }) => {
+        expect(request.headers.get('authorization')).toBeNull()
+        return HttpResponse.json({ name: 'vue', homepage: 'https://vuejs.org' })
+      }),
+    )
+
+    expect(await fetchNpmMeta('vue')).toMatchObject({ homepage: 'https://vuejs.org' })
+  })
 })
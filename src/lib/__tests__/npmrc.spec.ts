@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { getPackageRegistry, getRegistryAuthHeaders, NPM_REGISTRY, parseNpmrc } from '../npmrc.ts'
+
+describe('parseNpmrc', () => {
+  it('parses settings and expands environment variables', () => {
+    const content = [
+      '# comment',
+      '; other comment',
+      'registry = "https://mirror.example.com/"',
+      '@corp:registry=https://npm.corp.com/',
+      '//npm.corp.com/:_authToken=${TOKEN}',
+      '//other.example.com/:_authToken=${MISSING}',
+      'not a setting',
+    ].join('\n')
+
+    expect(parseNpmrc(content, { TOKEN: 'abc' })).toEqual({
+      registry: 'https://mirror.example.com/',
+      '@corp:registry': 'https://npm.corp.com/',
+      '//npm.corp.com/:_authToken': 'abc',
+    })
+  })
+})
+
+describe('getPackageRegistry', () => {
+  const config = {
+    registry: 'https://mirror.example.com',
+    '@corp:registry': 'https://npm.corp.com/',
+  }
+
+  it('picks the scope registry, then the registry setting', () => {
+    expect(getPackageRegistry('@corp/ui', config)).toBe('https://npm.corp.com/')
+    expect(getPackageRegistry('@vue/reactivity', config)).toBe('https://mirror.example.com/')
+    expect(getPackageRegistry('vue', {})).toBe(NPM_REGISTRY)
+  })
+})
+
+describe('getRegistryAuthHeaders', () => {
+  const config = {
+    '//npm.corp.com/:_authToken': 'host-token',
+    '//npm.corp.com/private/:_authToken': 'path-token',
+    '//basic.example.com/:_auth': 'dXNlcjpwYXNz',
+  }
+
+  it('uses the most specific credentials of the registry', () => {
+    expect(getRegistryAuthHeaders('https://npm.corp.com/', config)).toEqual({
+      Authorization: 'Bearer host-token',
+    })
+    expect(getRegistryAuthHeaders('https://npm.corp.com/private/', config)).toEqual({
+      Authorization: 'Bearer path-token',
+    })
+    expect(getRegistryAuthHeaders('https://basic.example.com/', config)).toEqual({
+      Authorization: 'Basic dXNlcjpwYXNz',
+    })
+  })
+
+  it('does not send credentials to other registries', () => {
+    expect(getRegistryAuthHeaders('https://npm.corp.com.evil.com/', config)).toEqual({})
+    expect(getRegistryAuthHeaders(NPM_REGISTRY, config)).toEqual({})
+  })
+})
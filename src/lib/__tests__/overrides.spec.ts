@@ -0,0 +1,100 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { pathToFileURL } from 'node:url'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { _setConfigDir } from '../config.ts'
+import { matchSourceOverride, resolveSourceOverride, TEAM_SOURCES_ENV } from '../overrides.ts'
+
+const testConfigDir = join(
+  tmpdir(),
+  'erudita-test-config-overrides-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+const teamDir = join(testConfigDir, 'team')
+
+describe('matchSourceOverride', () => {
+  const overrides = {
+    vue: 'https://vuejs.org',
+    '@vue/*': 'https://vuejs.org/api',
+    '@vue/test-*': 'https://test-utils.vuejs.org',
+    'vite-plugin-*': 'https://github.com/vitejs/{name}',
+  }
+
+  it('matches exact names and patterns', () => {
+    expect(matchSourceOverride('vue', overrides)).toBe('https://vuejs.org')
+    expect(matchSourceOverride('@vue/reactivity', overrides)).toBe('https://vuejs.org/api')
+    expect(matchSourceOverride('vue-router', overrides)).toBeNull()
+    expect(matchSourceOverride('constructor', overrides)).toBeNull()
+  })
+
+  it('prefers the most specific pattern', () => {
+    expect(matchSourceOverride('@vue/test-utils', overrides)).toBe('https://test-utils.vuejs.org')
+  })
+
+  it('replaces {name} with the package name', () => {
+    expect(matchSourceOverride('vite-plugin-vue', overrides)).toBe(
+      'https://github.com/vitejs/vite-plugin-vue',
+    )
+  })
+})
+
+describe('resolveSourceOverride', () => {
+  beforeEach(() => {
+    _setConfigDir(testConfigDir)
+    if (existsSync(testConfigDir)) {
+      rmSync(testConfigDir, { recursive: true, force: true })
+    }
+    mkdirSync(teamDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setConfigDir(null)
+    delete process.env[TEAM_SOURCES_ENV]
+    rmSync(testConfigDir, { recursive: true, force: true })
+  })
+
+  it('returns null without overrides files', () => {
+    rmSync(testConfigDir, { recursive: true, force: true })
+    expect(resolveSourceOverride('vue')).toBeNull()
+  })
+
+  it('reads the user file before the team file', () => {
+    writeFileSync(join(testConfigDir, 'sources.json'), JSON.stringify({ vue: 'https://mine.dev' }))
+    writeFileSync(
+      join(teamDir, 'sources.json'),
+      JSON.stringify({ vue: 'https://team.dev', pinia: './docs/pinia' }),
+    )
+    process.env[TEAM_SOURCES_ENV] = join(teamDir, 'sources.json')
+
+    expect(resolveSourceOverride('vue')).toBe('https://mine.dev')
+    // Local paths are relative to the file declaring them
+    expect(resolveSourceOverride('pinia')).toBe(pathToFileURL(join(teamDir, 'docs/pinia')).href)
+  })
+
+  it('replaces {name} in local paths', () => {
+    writeFileSync(
+      join(teamDir, 'sources.json'),
+      JSON.stringify({ '@acme/*': './docs/{name}', 'acme-*': 'file:./docs/{name}/llms.txt' }),
+    )
+    process.env[TEAM_SOURCES_ENV] = join(teamDir, 'sources.json')
+
+    expect(resolveSourceOverride('@acme/ui')).toBe(
+      pathToFileURL(join(teamDir, 'docs/@acme/ui')).href,
+    )
+    expect(resolveSourceOverride('acme-cli')).toBe(
+      pathToFileURL(join(teamDir, 'docs/acme-cli/llms.txt')).href,
+    )
+  })
+
+  it('ignores invalid files and entries', () => {
+    writeFileSync(join(testConfigDir, 'sources.json'), '{ nope')
+    writeFileSync(
+      join(teamDir, 'sources.json'),
+      JSON.stringify({ vue: 42, pinia: 'https://pinia.dev' }),
+    )
+    process.env[TEAM_SOURCES_ENV] = join(teamDir, 'sources.json')
+
+    expect(resolveSourceOverride('vue')).toBeNull()
+    expect(resolveSourceOverride('pinia')).toBe('https://pinia.dev')
+  })
+})
@@ -2,7 +2,7 @@ import { existsSync, lstatSync, mkdirSync, readFileSync, rmSync, writeFileSync }
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { _setCacheDir } from '../cache.ts'
+import { _setCacheDir, cachePackage } from '../cache.ts'
 import {
   buildPackageKey,
   createPackageLink,
@@ -12,6 +12,9 @@ import {
   parsePackageKey,
   pruneProjectLinks,
   readProjectConfig,
+  listRegisteredProjects,
+  registerProject,
+  relinkPackage,
   removePackageLink,
   writeProjectConfig,
 } from '../project.ts'
@@ -357,4 +360,43 @@ describe('project', () => {
       expect(content).toBe('.erudita/\n')
     })
   })
+
+  describe('registerProject / relinkPackage', () => {
+    it('lists registered projects that still have an erudita.json', () => {
+      registerProject(testDir)
+      expect(listRegisteredProjects()).toEqual([])
+
+      writeProjectConfig(testDir, { packages: {} })
+      registerProject(testDir)
+      expect(listRegisteredProjects()).toEqual([testDir])
+    })
+
+    it('relinks packages in projects using them', () => {
+      cachePackage(
+        'vue',
+        'https://vuejs.org',
+        { title: 'Vue', entries: [], sections: [] },
+        '# v1',
+        new Map(),
+      )
+      writeProjectConfig(testDir, {
+        packages: { vue: { url: 'https://vuejs.org' } },
+        linkMode: 'copy',
+      })
+      registerProject(testDir)
+      createPackageLink(testDir, 'vue', 'copy')
+
+      cachePackage(
+        'vue',
+        'https://vuejs.org',
+        { title: 'Vue', entries: [], sections: [] },
+        '# v2',
+        new Map(),
+      )
+
+      expect(relinkPackage('pinia')).toEqual([])
+      expect(relinkPackage('vue')).toEqual([testDir])
+      expect(readFileSync(join(testDir, '.erudita', 'vue', 'llms.txt'), 'utf-8')).toBe('# v2')
+    })
+  })
 })
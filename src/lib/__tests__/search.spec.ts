@@ -0,0 +1,176 @@
+import { existsSync, mkdirSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { _setCacheDir, cachePackage, getPackageCacheDir } from '../cache.ts'
+import {
+  buildSearchIndex,
+  buildSnippet,
+  getSearchIndex,
+  searchDocs,
+  splitSections,
+  tokenize,
+} from '../search.ts'
+
+const testCacheDir = join(
+  tmpdir(),
+  'erudita-test-cache-search-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+describe('tokenize', () => {
+  it('lowercases and splits on punctuation', () => {
+    expect(tokenize('defineStore(id, options)')).toEqual(['definestore', 'id', 'options'])
+  })
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('The store is a function')).toEqual(['store', 'function'])
+  })
+})
+
+describe('splitSections', () => {
+  it('splits on headings and tracks the heading path', () => {
+    const sections = splitSections(`# Guide
+
+Intro text
+
+## Install
+
+Run pnpm add
+
+### Options
+
+Some options
+
+## Usage
+
+Use it`)
+
+    expect(sections.map((s) => s.headings)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Install', 'Options'],
+      ['Guide', 'Usage'],
+    ])
+    expect(sections[1].body).toBe('Run pnpm add')
+    expect(sections[1].start).toBe(4)
+    expect(sections[1].end).toBe(8)
+  })
+
+  it('keeps content before the first heading', () => {
+    const sections = splitSections('Preamble\n\n# Title\n\nBody')
+    expect(sections[0]).toMatchObject({ headings: [], body: 'Preamble' })
+  })
+
+  it('ignores headings inside code fences', () => {
+    const sections = splitSections('# Title\n\n```sh\n# not a heading\n```\n')
+    expect(sections).toHaveLength(1)
+    expect(sections[0].body).toContain('# not a heading')
+  })
+})
+
+describe('buildSearchIndex', () => {
+  it('weights heading terms over body terms', () => {
+    const index = buildSearchIndex(new Map([['a.md', '# Router\n\nrouter setup']]))
+    expect(index.sections).toHaveLength(1)
+    expect(index.sections[0].terms.router).toBe(4)
+    expect(index.sections[0].terms.setup).toBe(1)
+  })
+})
+
+describe('buildSnippet', () => {
+  it('picks the first line containing a term', () => {
+    expect(buildSnippet(['## Title', 'first line', 'the store lives here'], ['store'])).toBe(
+      'the store lives here',
+    )
+  })
+
+  it('truncates long lines around the match', () => {
+    const line = 'word '.repeat(100) + 'needle ' + 'word '.repeat(100)
+    const snippet = buildSnippet([line], ['needle'])
+    expect(snippet).toContain('needle')
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+  })
+})
+
+describe('searchDocs', () => {
+  beforeEach(() => {
+    _setCacheDir(testCacheDir)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+    mkdirSync(testCacheDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    _setCacheDir(null)
+    if (existsSync(testCacheDir)) {
+      rmSync(testCacheDir, { recursive: true, force: true })
+    }
+  })
+
+  function cacheDocs(name: string, docFiles: Record<string, string>) {
+    cachePackage(
+      name,
+      `https://${name}.dev`,
+      { title: name, entries: [], sections: [] },
+      `# ${name}`,
+      new Map(Object.entries(docFiles)),
+    )
+  }
+
+  it('ranks sections across packages', () => {
+    cacheDocs('pinia', {
+      'stores.md': '# Stores\n\n## Defining a Store\n\nUse defineStore to create a store.',
+      'plugins.md': '# Plugins\n\nPlugins can extend a store.',
+    })
+    cacheDocs('vue-router', {
+      'guide.md': '# Guide\n\n## Navigation\n\nUse router.push to navigate.',
+    })
+
+    const results = searchDocs('define store')
+    expect(results.length).toBeGreaterThan(0)
+    expect(results[0]).toMatchObject({
+      packageName: 'pinia',
+      file: 'stores.md',
+      headings: ['Stores', 'Defining a Store'],
+      line: 3,
+      snippet: 'Use defineStore to create a store.',
+    })
+    expect(results.every((r) => r.packageName === 'pinia')).toBe(true)
+  })
+
+  it('restricts the search to the given packages', () => {
+    cacheDocs('a', { 'a.md': '# Shared\n\nshared term' })
+    cacheDocs('b', { 'b.md': '# Shared\n\nshared term' })
+
+    const results = searchDocs('shared', { packages: ['b'] })
+    expect(results.map((r) => r.packageName)).toEqual(['b'])
+  })
+
+  it('limits the number of results', () => {
+    cacheDocs('many', {
+      'a.md': '# One\n\nterm',
+      'b.md': '# Two\n\nterm',
+      'c.md': '# Three\n\nterm',
+    })
+    expect(searchDocs('term', { limit: 2 })).toHaveLength(2)
+  })
+
+  it('returns nothing for queries without terms', () => {
+    cacheDocs('pkg', { 'a.md': '# Title' })
+    expect(searchDocs('the a')).toEqual([])
+  })
+
+  it('persists the index and rebuilds it when the package is refetched', () => {
+    cacheDocs('pkg', { 'a.md': '# Old\n\nold content' })
+    expect(searchDocs('old')).toHaveLength(1)
+    expect(existsSync(join(getPackageCacheDir('pkg'), 'search-index.json'))).toBe(true)
+
+    cacheDocs('pkg', { 'a.md': '# New\n\nnew content' })
+    expect(existsSync(join(getPackageCacheDir('pkg'), 'search-index.json'))).toBe(false)
+    expect(searchDocs('old')).toEqual([])
+    expect(searchDocs('new')).toHaveLength(1)
+    expect(getSearchIndex('pkg')?.sections).toHaveLength(2)
+  })
+})
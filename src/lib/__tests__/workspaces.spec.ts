@@ -0,0 +1,147 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  findWorkspacePackages,
+  getWorkspaceDirs,
+  parseDepsFilters,
+  parsePnpmWorkspace,
+  readPackageJsonDeps,
+} from '../workspaces.ts'
+
+const testDir = join(
+  tmpdir(),
+  'erudita-test-workspaces-' + Date.now() + '-' + Math.random().toString(36).slice(2),
+)
+
+function writePackage(dir: string, pkg: Record<string, unknown>) {
+  mkdirSync(join(testDir, dir), { recursive: true })
+  writeFileSync(join(testDir, dir, 'package.json'), JSON.stringify(pkg))
+}
+
+describe('parsePnpmWorkspace', () => {
+  it('reads block and flow lists', () => {
+    expect(
+      parsePnpmWorkspace(
+        "packages:\n  # apps\n  - 'apps/*'\n  - \"packages/**\" # all\n  - '!**/test/**'\n\ncatalog:\n  vue: ^3.4.0\n",
+      ),
+    ).toEqual(['apps/*', 'packages/**', '!**/test/**'])
+    expect(parsePnpmWorkspace("packages: ['apps/*', docs]\n")).toEqual(['apps/*', 'docs'])
+    expect(parsePnpmWorkspace('catalog:\n  vue: ^3.4.0\n')).toEqual([])
+  })
+})
+
+describe('parseDepsFilters', () => {
+  it('parses a filter or a comma-separated list', () => {
+    expect(parseDepsFilters('all')).toEqual(['all'])
+    expect(parseDepsFilters('prod, peer')).toEqual(['prod', 'peer'])
+    expect(parseDepsFilters('prod,nope')).toBeNull()
+    expect(parseDepsFilters('')).toBeNull()
+  })
+})
+
+describe('workspaces', () => {
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('finds packages of pnpm-workspace.yaml', () => {
+    writeFileSync(
+      join(testDir, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'apps/*'\n  - 'packages/**'\n  - '!**/fixtures/**'\n",
+    )
+    writePackage('apps/web', { name: 'web' })
+    writePackage('apps/docs', { name: 'docs' })
+    writePackage('packages/ui', { name: '@acme/ui' })
+    writePackage('packages/tools/cli', { name: '@acme/cli' })
+    writePackage('packages/ui/fixtures/demo', { name: 'demo' })
+    writePackage('packages/ui/node_modules/vue', { name: 'vue' })
+    mkdirSync(join(testDir, 'apps/empty'))
+
+    expect(findWorkspacePackages(testDir)).toEqual([
+      { name: 'docs', dir: 'apps/docs' },
+      { name: 'web', dir: 'apps/web' },
+      { name: '@acme/cli', dir: 'packages/tools/cli' },
+      { name: '@acme/ui', dir: 'packages/ui' },
+    ])
+  })
+
+  it('finds packages of the package.json workspaces field', () => {
+    writePackage('.', { workspaces: { packages: ['packages/*'] } })
+    writePackage('packages/a', { name: 'a' })
+
+    expect(findWorkspacePackages(testDir)).toEqual([{ name: 'a', dir: 'packages/a' }])
+  })
+
+  it('returns no packages outside of monorepos', () => {
+    writePackage('.', { name: 'app' })
+    expect(findWorkspacePackages(testDir)).toEqual([])
+    expect(getWorkspaceDirs(testDir)).toEqual(['.'])
+  })
+
+  describe('readPackageJsonDeps', () => {
+    beforeEach(() => {
+      writePackage('.', {
+        workspaces: ['packages/*'],
+        devDependencies: { vitest: '^4.0.0' },
+      })
+      writePackage('packages/app', {
+        name: 'app',
+        dependencies: { vue: '^3.4.0', ui: 'workspace:*' },
+        devDependencies: { vitest: '^4.0.0' },
+      })
+      writePackage('packages/ui', {
+        name: 'ui',
+        dependencies: { vue: '^3.4.0', 'floating-vue': '^5.0.0' },
+      })
+    })
+
+    it('deduplicates the dependencies of every workspace package', () => {
+      const dirs = getWorkspaceDirs(testDir)!
+      expect(dirs).toEqual(['.', 'packages/app', 'packages/ui'])
+      expect(readPackageJsonDeps(testDir, 'all', dirs)).toEqual(['vitest', 'vue', 'floating-vue'])
+      expect(readPackageJsonDeps(testDir, 'prod', dirs)).toEqual(['vue', 'floating-vue'])
+      expect(readPackageJsonDeps(testDir, 'dev')).toEqual(['vitest'])
+    })
+
+    it('reads peer and optional dependencies', () => {
+      writePackage('packages/plugin', {
+        name: 'plugin',
+        peerDependencies: { vue: '^3.4.0', pinia: '^3.0.0' },
+        optionalDependencies: { fsevents: '^2.0.0' },
+      })
+      const dirs = ['packages/plugin']
+      expect(readPackageJsonDeps(testDir, 'peer', dirs)).toEqual(['vue', 'pinia'])
+      expect(readPackageJsonDeps(testDir, 'optional', dirs)).toEqual(['fsevents'])
+      expect(readPackageJsonDeps(testDir, ['optional', 'peer'], dirs)).toEqual([
+        'vue',
+        'pinia',
+        'fsevents',
+      ])
+      // all only covers prod and dev dependencies
+      expect(readPackageJsonDeps(testDir, 'all', dirs)).toEqual([])
+      expect(readPackageJsonDeps(testDir, ['all', 'peer', 'optional'], dirs)).toEqual([
+        'vue',
+        'pinia',
+        'fsevents',
+      ])
+    })
+
+    it('targets a single workspace package by name or directory', () => {
+      expect(getWorkspaceDirs(testDir, 'ui')).toEqual(['packages/ui'])
+      expect(getWorkspaceDirs(testDir, './packages/app/')).toEqual(['packages/app'])
+      expect(getWorkspaceDirs(testDir, 'nope')).toBeNull()
+      expect(readPackageJsonDeps(testDir, 'all', ['packages/app'])).toEqual(['vue', 'vitest'])
+    })
+  })
+})
@@ -24,3 +24,63 @@ export async function asyncPool<T, R>(
   await Promise.all(executing)
   return results
 }
+
+/**
+ * Run async operations with a concurrency limit, handing each result to `onResult`
+ * in the order of `items`, as soon as the results before it are handled
+ * `isNext` tells whether the item is the one the next `onResult` waits for
+ */
+export async function asyncPoolInOrder<T, R>(
+  concurrency: number,
+  items: T[],
+  fn: (item: T, isNext: () => boolean) => Promise<R>,
+  onResult: (result: R, item: T) => void,
+): Promise<void> {
+  const results = new Map<number, R>()
+  let next = 0
+
+  await asyncPool(concurrency, [...items.keys()], async (index) => {
+    results.set(index, await fn(items[index], () => index === next))
+    while (results.has(next)) {
+      const result = results.get(next)!
+      results.delete(next)
+      onResult(result, items[next++])
+    }
+  })
+}
+
+/**
+ * Runs tasks with a concurrency limit shared by every caller
+ */
+export type TaskPool = <R>(task: () => Promise<R>) => Promise<R>
+
+/**
+ * Create a pool that runs at most `concurrency` tasks at once, queued tasks start
+ * in the order they were added
+ */
+export function createTaskPool(concurrency: number): TaskPool {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid pool concurrency ${concurrency}, it must be a positive integer`)
+  }
+  const queue: (() => void)[] = []
+  let running = 0
+
+  return async (task) => {
+    if (running >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve))
+    } else {
+      running++
+    }
+    try {
+      return await task()
+    } finally {
+      // Hand the slot over to the next queued task
+      const nextTask = queue.shift()
+      if (nextTask) {
+        nextTask()
+      } else {
+        running--
+      }
+    }
+  }
+}
@@ -1,10 +1,35 @@
-import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
-import { homedir, platform } from 'node:os'
-import { join } from 'node:path'
-import type { CachedPackageMeta, LlmsDoc } from '../types.ts'
-import { parseLlmsTxt } from './llms-parser.ts'
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { basename, dirname, join, resolve, sep } from 'node:path'
+import type {
+  CachedPackageMeta,
+  ConditionalCache,
+  DocManifest,
+  LlmsDoc,
+  LlmsEntry,
+  PackageSnapshot,
+} from '../types.ts'
+import { loadConfig } from './config.ts'
+import type { FetchResult } from './fetcher.ts'
+import { parseLlmsTxt, resolveUrl } from './llms-parser.ts'
 
-const APP_NAME = 'erudita'
+/**
+ * Search index file in a package cache, written by search.ts
+ */
+export const SEARCH_INDEX_FILE = 'search-index.json'
+// Original content of a full-content llms.txt, split into the docs directory
+const FULL_LLMS_TXT_FILE = 'llms-full.txt'
+// Maps doc URLs to their files in the docs directory
+const MANIFEST_FILE = 'manifest.json'
+const MANIFEST_VERSION = 1
 
 // Allow overriding for tests
 let _customCacheDir: string | null = null
@@ -17,25 +42,10 @@ export function _setCacheDir(dir: string | null): void {
 }
 
 /**
- * Get the XDG cache directory for the current platform
+ * Get the cache directory, from the user config or the XDG cache directory
  */
 export function getCacheDir(): string {
-  if (_customCacheDir) {
-    return _customCacheDir
-  }
-
-  const home = homedir()
-
-  if (platform() === 'darwin') {
-    return join(home, 'Library', 'Caches', APP_NAME)
-  }
-
-  if (platform() === 'win32') {
-    return join(process.env.LOCALAPPDATA || join(home, 'AppData', 'Local'), APP_NAME, 'Cache')
-  }
-
-  // Linux/Unix: follow XDG spec
-  return join(process.env.XDG_CACHE_HOME || join(home, '.cache'), APP_NAME)
+  return _customCacheDir || loadConfig().cacheDir
 }
 
 /**
@@ -123,6 +133,118 @@ export function listCached(): CachedPackageMeta[] {
   return result
 }
 
+/**
+ * Extra information stored in the package metadata
+ */
+export type CachePackageOptions = Pick<
+  CachedPackageMeta,
+  'llmsTxtUrl' | 'pathPrefix' | 'discovery' | 'validators' | 'skipOptional' | 'htmlDocs' | 'git'
+> & {
+  /** Cache path of every doc URL, written to the manifest */
+  docPaths?: Map<string, string>
+  /** Doc URLs that could not be fetched */
+  failed?: string[]
+  /** Original content of a full-content llms.txt */
+  fullLlmsTxt?: string
+}
+
+/**
+ * Resolve a path inside the docs directory
+ * Returns null for paths escaping it
+ */
+function resolveDocPath(docsDir: string, file: string): string | null {
+  const root = resolve(docsDir)
+  const docPath = resolve(root, file)
+  return docPath.startsWith(root + sep) ? docPath : null
+}
+
+/**
+ * List the files of a docs directory, as paths relative to it
+ */
+function walkDocsDir(docsDir: string, prefix = ''): string[] {
+  if (!existsSync(docsDir)) {
+    return []
+  }
+  const files: string[] = []
+  for (const entry of readdirSync(docsDir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      files.push(...walkDocsDir(join(docsDir, entry.name), `${prefix}${entry.name}/`))
+    } else if (entry.isFile()) {
+      files.push(prefix + entry.name)
+    }
+  }
+  return files
+}
+
+/**
+ * Delete empty directories left in a docs directory
+ */
+function removeEmptyDirs(dir: string): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const subDir = join(dir, entry.name)
+      removeEmptyDirs(subDir)
+      if (readdirSync(subDir).length === 0) {
+        rmSync(subDir, { recursive: true, force: true })
+      }
+    }
+  }
+}
+
+/**
+ * Read the doc manifest of a package cache (or snapshot) directory
+ */
+function readManifest(packageDir: string): DocManifest | null {
+  const manifestPath = join(packageDir, MANIFEST_FILE)
+  if (!existsSync(manifestPath)) {
+    return null
+  }
+  try {
+    return JSON.parse(readFileSync(manifestPath, 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the doc manifest from the files written to the docs directory
+ */
+function buildManifest(
+  docsDir: string,
+  docPaths: Map<string, string>,
+  failed: Set<string>,
+): DocManifest {
+  const docs: DocManifest['docs'] = {}
+  for (const [url, file] of docPaths) {
+    const docPath = resolveDocPath(docsDir, file)
+    if (docPath && existsSync(docPath)) {
+      docs[url] = {
+        file,
+        size: statSync(docPath).size,
+        status: failed.has(url) ? 'stale' : 'ok',
+      }
+    } else {
+      docs[url] = { file, size: 0, status: 'failed' }
+    }
+  }
+  return { version: MANIFEST_VERSION, docs }
+}
+
+/**
+ * List the cached doc files of a package cache (or snapshot) directory
+ * Caches fetched before the manifest existed list the docs directory instead
+ */
+function listDocFiles(packageDir: string): string[] {
+  const manifest = readManifest(packageDir)
+  if (!manifest) {
+    return walkDocsDir(join(packageDir, 'docs')).sort()
+  }
+  const files = Object.values(manifest.docs)
+    .filter((doc) => doc.status !== 'failed')
+    .map((doc) => doc.file)
+  return [...new Set(files)].sort()
+}
+
 /**
  * Cache a package's documentation
  */
@@ -132,20 +254,47 @@ export function cachePackage(
   _doc: LlmsDoc,
   rawLlmsTxt: string,
   docFiles: Map<string, string>,
+  options: CachePackageOptions = {},
 ): void {
+  const { docPaths, failed = [], fullLlmsTxt, ...metaOptions } = options
   const packageDir = getPackageDir(packageName)
   const docsDir = join(packageDir, 'docs')
 
+  // Keep the previous version around for rollbacks
+  if (createSnapshot(packageName)) {
+    pruneSnapshots(packageName)
+  }
+
   // Create directories
   mkdirSync(docsDir, { recursive: true })
 
   // Write raw llms.txt
   writeFileSync(join(packageDir, 'llms.txt'), rawLlmsTxt)
+  // Keep the unsplit content around to revalidate it with conditional requests
+  const fullLlmsTxtPath = join(packageDir, FULL_LLMS_TXT_FILE)
+  if (fullLlmsTxt !== undefined) {
+    writeFileSync(fullLlmsTxtPath, fullLlmsTxt)
+  } else {
+    rmSync(fullLlmsTxtPath, { force: true })
+  }
 
-  // Write individual doc files
+  // Write individual doc files, keeping their directories
   for (const [filename, content] of docFiles) {
-    const safeName = filename.replace(/[/\\]/g, '_')
-    writeFileSync(join(docsDir, safeName), content)
+    const docPath = resolveDocPath(docsDir, filename)
+    if (!docPath) {
+      continue
+    }
+    mkdirSync(dirname(docPath), { recursive: true })
+    writeFileSync(docPath, content)
+  }
+
+  // Readers find the file of a doc URL through the manifest
+  const manifestPath = join(packageDir, MANIFEST_FILE)
+  if (docPaths) {
+    const manifest = buildManifest(docsDir, docPaths, new Set(failed))
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2))
+  } else {
+    rmSync(manifestPath, { force: true })
   }
 
   // Write package metadata (minimal - doc is parsed on demand from llms.txt)
@@ -153,8 +302,53 @@ export function cachePackage(
     name: packageName,
     sourceUrl,
     fetchedAt: Date.now(),
+    ...metaOptions,
   }
   writeFileSync(join(packageDir, 'meta.json'), JSON.stringify(meta, null, 2))
+
+  // Drop the stale search index, it gets rebuilt on the next search
+  rmSync(join(packageDir, SEARCH_INDEX_FILE), { force: true })
+}
+
+/**
+ * Cache the documentation of a successful fetchPackageDocs result
+ */
+export function cacheFetchResult(
+  packageName: string,
+  sourceUrl: string,
+  result: FetchResult,
+  options: Pick<CachePackageOptions, 'skipOptional'> = {},
+): void {
+  cachePackage(packageName, sourceUrl, result.doc!, result.rawLlmsTxt!, result.docFiles!, {
+    llmsTxtUrl: result.llmsTxtUrl,
+    pathPrefix: result.pathPrefix,
+    discovery: result.discovery,
+    validators: result.validators,
+    docPaths: result.docPaths,
+    failed: result.failed,
+    fullLlmsTxt: result.fullLlmsTxt,
+    htmlDocs: result.htmlDocs,
+    skipOptional: options.skipOptional,
+    git: result.git,
+  })
+}
+
+/**
+ * Get the cached state needed to refetch a package with conditional requests
+ * Returns undefined when the package has no stored validators
+ */
+export function getConditionalCache(packageName: string): ConditionalCache | undefined {
+  const meta = getCachedMeta(packageName)
+  // Full-content files are cached split, the server knows the unsplit version
+  const fullLlmsTxtPath = join(getPackageDir(packageName), FULL_LLMS_TXT_FILE)
+  const llmsTxt = existsSync(fullLlmsTxtPath)
+    ? readFileSync(fullLlmsTxtPath, 'utf-8')
+    : getCachedLlmsTxt(packageName)
+  // Without a manifest, not modified docs can't be found in the cache
+  if (!meta?.validators || llmsTxt === null || !getCachedManifest(packageName)) {
+    return undefined
+  }
+  return { validators: meta.validators, llmsTxt, htmlDocs: meta.htmlDocs }
 }
 
 /**
@@ -170,20 +364,158 @@ export function getCachedLlmsTxt(packageName: string): string | null {
 }
 
 /**
- * Get a cached doc file for a package
+ * Get the doc manifest of a package
+ */
+export function getCachedManifest(packageName: string): DocManifest | null {
+  return readManifest(getPackageDir(packageName))
+}
+
+/**
+ * Get a cached doc file for a package, by its path in the docs directory
  */
 export function getCachedDocFile(packageName: string, filename: string): string | null {
-  const packageDir = getPackageDir(packageName)
-  const safeName = filename.replace(/[/\\]/g, '_')
-  const docPath = join(packageDir, 'docs', safeName)
-  if (!existsSync(docPath)) {
+  const docPath = resolveDocPath(join(getPackageDir(packageName), 'docs'), filename)
+  if (!docPath || !existsSync(docPath)) {
     return null
   }
   return readFileSync(docPath, 'utf-8')
 }
 
 /**
- * Remove a package from cache
+ * Get the cached content of an llms.txt entry
+ */
+export function getCachedEntryContent(packageName: string, entry: LlmsEntry): string | null {
+  const meta = getCachedMeta(packageName)
+  if (!meta) {
+    return null
+  }
+
+  const manifest = getCachedManifest(packageName)
+  if (manifest) {
+    const cached = manifest.docs[resolveUrl(meta.llmsTxtUrl || meta.sourceUrl, entry.url)]
+    return cached && cached.status !== 'failed' ? getCachedDocFile(packageName, cached.file) : null
+  }
+
+  // Caches fetched before the manifest existed are named after the last path segment
+  const urlPath = new URL(entry.url, meta.sourceUrl).pathname
+  const filename = urlPath.split('/').pop() || 'doc.md'
+  return getCachedDocFile(packageName, filename)
+}
+
+/**
+ * List the doc files cached for a package
+ */
+export function listCachedDocFiles(packageName: string): string[] {
+  return listDocFiles(getPackageDir(packageName))
+}
+
+/**
+ * Delete cached doc files that are not in the manifest
+ * Returns the removed filenames
+ */
+export function pruneCachedDocFiles(packageName: string): string[] {
+  const packageDir = getPackageDir(packageName)
+  if (!readManifest(packageDir)) {
+    return []
+  }
+
+  const docsDir = join(packageDir, 'docs')
+  const keep = new Set(listDocFiles(packageDir))
+  const removed = walkDocsDir(docsDir)
+    .filter((filename) => !keep.has(filename))
+    .sort()
+  for (const filename of removed) {
+    rmSync(join(docsDir, filename), { force: true })
+  }
+  removeEmptyDirs(docsDir)
+  return removed
+}
+
+/**
+ * Get path to the snapshots directory of a package
+ */
+function getSnapshotsDir(packageName: string): string {
+  return join(getCacheDir(), 'snapshots', packageName.replace('/', '__'))
+}
+
+/**
+ * Copy the current cache of a package into its snapshots, named after its fetch time
+ * Returns false when there is nothing to snapshot
+ */
+function createSnapshot(packageName: string): boolean {
+  const meta = getCachedMeta(packageName)
+  if (!meta) {
+    return false
+  }
+  const snapshotDir = join(getSnapshotsDir(packageName), String(meta.fetchedAt))
+  if (!existsSync(snapshotDir)) {
+    cpSync(getPackageDir(packageName), snapshotDir, {
+      recursive: true,
+      // The search index is rebuilt on demand
+      filter: (src) => basename(src) !== SEARCH_INDEX_FILE,
+    })
+  }
+  return true
+}
+
+/**
+ * Delete the oldest snapshots beyond the limit
+ */
+function pruneSnapshots(packageName: string): void {
+  for (const snapshot of listSnapshots(packageName).slice(loadConfig().maxSnapshots)) {
+    rmSync(join(getSnapshotsDir(packageName), snapshot.id), { recursive: true, force: true })
+  }
+}
+
+/**
+ * List the snapshots of a package, most recent first
+ */
+export function listSnapshots(packageName: string): PackageSnapshot[] {
+  const snapshotsDir = getSnapshotsDir(packageName)
+  if (!existsSync(snapshotsDir)) {
+    return []
+  }
+
+  const snapshots: PackageSnapshot[] = []
+  for (const dir of readdirSync(snapshotsDir, { withFileTypes: true })) {
+    if (!dir.isDirectory()) {
+      continue
+    }
+    const snapshotDir = join(snapshotsDir, dir.name)
+    let meta: CachedPackageMeta
+    try {
+      meta = JSON.parse(readFileSync(join(snapshotDir, 'meta.json'), 'utf-8'))
+    } catch {
+      continue
+    }
+    const docCount = listDocFiles(snapshotDir).length
+    snapshots.push({ id: dir.name, fetchedAt: meta.fetchedAt, sourceUrl: meta.sourceUrl, docCount })
+  }
+
+  return snapshots.sort((a, b) => b.fetchedAt - a.fetchedAt)
+}
+
+/**
+ * Restore a package from one of its snapshots
+ * The current cache becomes a snapshot so the rollback can be undone
+ */
+export function restoreSnapshot(packageName: string, snapshotId: string): boolean {
+  const snapshotDir = join(getSnapshotsDir(packageName), snapshotId)
+  if (!existsSync(join(snapshotDir, 'meta.json'))) {
+    return false
+  }
+
+  const packageDir = getPackageDir(packageName)
+  createSnapshot(packageName)
+  rmSync(packageDir, { recursive: true, force: true })
+  cpSync(snapshotDir, packageDir, { recursive: true })
+  rmSync(snapshotDir, { recursive: true, force: true })
+  pruneSnapshots(packageName)
+  return true
+}
+
+/**
+ * Remove a package from cache, including its snapshots
  */
 export function removeFromCache(packageName: string): boolean {
   const packageDir = getPackageDir(packageName)
@@ -192,6 +524,7 @@ export function removeFromCache(packageName: string): boolean {
   }
 
   rmSync(packageDir, { recursive: true, force: true })
+  rmSync(getSnapshotsDir(packageName), { recursive: true, force: true })
   return true
 }
 
@@ -0,0 +1,298 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { homedir, platform } from 'node:os'
+import { join, resolve } from 'node:path'
+import type { EruditaConfig } from '../types.ts'
+
+const APP_NAME = 'erudita'
+/**
+ * User config file in the config directory
+ */
+export const CONFIG_FILE = 'config.json'
+
+export type ConfigKey = keyof EruditaConfig
+
+/**
+ * Where a config value comes from, by precedence
+ */
+export type ConfigSource = 'project' | 'env' | 'user' | 'default'
+
+/**
+ * Values set by the project's erudita.json
+ */
+export interface ConfigLayers {
+  project?: Partial<EruditaConfig>
+}
+
+interface ConfigKeyDefinition<T> {
+  /** Environment variable overriding the user config */
+  env: string
+  description: string
+  /** Validate a value from a file or an env variable, undefined if invalid */
+  parse: (value: unknown) => T | undefined
+}
+
+function parsePath(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? resolve(value.trim()) : undefined
+}
+
+function parseInteger(min: number) {
+  return (value: unknown): number | undefined => {
+    const number = typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value
+    return typeof number === 'number' && Number.isInteger(number) && number >= min
+      ? number
+      : undefined
+  }
+}
+
+const CONFIG_KEYS: { [K in ConfigKey]: ConfigKeyDefinition<EruditaConfig[K]> } = {
+  concurrency: {
+    env: 'ERUDITA_CONCURRENCY',
+    description: 'Number of concurrent downloads',
+    parse: parseInteger(1),
+  },
+  hostConcurrency: {
+    env: 'ERUDITA_HOST_CONCURRENCY',
+    description: 'Number of concurrent downloads from a single host, 0 for no limit',
+    parse: parseInteger(0),
+  },
+  hostRateLimit: {
+    env: 'ERUDITA_HOST_RATE_LIMIT',
+    description: 'Requests per minute to a single host, 0 for no limit',
+    parse: parseInteger(0),
+  },
+  timeout: {
+    env: 'ERUDITA_TIMEOUT',
+    description: 'Request timeout in milliseconds',
+    parse: parseInteger(1),
+  },
+  retries: {
+    env: 'ERUDITA_RETRIES',
+    description: 'Attempts per request before giving up',
+    parse: parseInteger(1),
+  },
+  cacheDir: {
+    env: 'ERUDITA_CACHE_DIR',
+    description: 'Where fetched docs are cached',
+    parse: parsePath,
+  },
+  linkMode: {
+    env: 'ERUDITA_LINK_MODE',
+    description: 'How docs are installed into projects: link or copy',
+    parse: (value) => (value === 'link' || value === 'copy' ? value : undefined),
+  },
+  maxSnapshots: {
+    env: 'ERUDITA_MAX_SNAPSHOTS',
+    description: 'Number of previous versions kept per package',
+    parse: parseInteger(0),
+  },
+  proxy: {
+    env: 'ERUDITA_PROXY',
+    description: 'Proxy URL for all requests, defaults to HTTPS_PROXY and HTTP_PROXY',
+    parse: (value) =>
+      typeof value === 'string' && /^https?:\/\/[^\s/]/.test(value.trim())
+        ? value.trim()
+        : undefined,
+  },
+  caFile: {
+    env: 'ERUDITA_CA_FILE',
+    description: 'PEM file of extra trusted root certificates',
+    parse: parsePath,
+  },
+}
+
+// Allow overriding for tests
+let _customConfigDir: string | null = null
+// Effective config, read once per process
+let loadedConfig: EruditaConfig | null = null
+
+/**
+ * Set a custom config directory (for testing)
+ */
+export function _setConfigDir(dir: string | null): void {
+  _customConfigDir = dir
+  loadedConfig = null
+}
+
+/**
+ * Read the config again on the next loadConfig, after changing ERUDITA_* variables
+ * (for testing)
+ */
+export function _resetConfig(): void {
+  loadedConfig = null
+}
+
+/**
+ * Get the XDG config directory for the current platform
+ */
+export function getConfigDir(): string {
+  if (_customConfigDir) {
+    return _customConfigDir
+  }
+
+  const home = homedir()
+
+  if (platform() === 'darwin') {
+    return join(home, 'Library', 'Application Support', APP_NAME)
+  }
+
+  if (platform() === 'win32') {
+    return join(process.env.APPDATA || join(home, 'AppData', 'Roaming'), APP_NAME, 'Config')
+  }
+
+  // Linux/Unix: follow XDG spec
+  return join(process.env.XDG_CONFIG_HOME || join(home, '.config'), APP_NAME)
+}
+
+/**
+ * Get the XDG cache directory for the current platform
+ */
+function getDefaultCacheDir(): string {
+  const home = homedir()
+
+  if (platform() === 'darwin') {
+    return join(home, 'Library', 'Caches', APP_NAME)
+  }
+
+  if (platform() === 'win32') {
+    return join(process.env.LOCALAPPDATA || join(home, 'AppData', 'Local'), APP_NAME, 'Cache')
+  }
+
+  // Linux/Unix: follow XDG spec
+  return join(process.env.XDG_CACHE_HOME || join(home, '.cache'), APP_NAME)
+}
+
+function getDefaultConfig(): EruditaConfig {
+  return {
+    concurrency: 5,
+    hostConcurrency: 0,
+    hostRateLimit: 0,
+    timeout: 10000,
+    retries: 3,
+    cacheDir: getDefaultCacheDir(),
+    linkMode: 'link',
+    maxSnapshots: 5,
+    proxy: '',
+    caFile: '',
+  }
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.hasOwn(CONFIG_KEYS, key)
+}
+
+/**
+ * Get the description of every config key
+ */
+export function getConfigDescriptions(): Record<ConfigKey, string> {
+  const descriptions = {} as Record<ConfigKey, string>
+  for (const key of Object.keys(CONFIG_KEYS) as ConfigKey[]) {
+    descriptions[key] = CONFIG_KEYS[key].description
+  }
+  return descriptions
+}
+
+/**
+ * Keep the valid values of a config object
+ */
+function parseConfig(data: Record<string, unknown>): Partial<EruditaConfig> {
+  const config: Partial<Record<ConfigKey, unknown>> = {}
+  for (const key of Object.keys(CONFIG_KEYS) as ConfigKey[]) {
+    const value = data[key] === undefined ? undefined : CONFIG_KEYS[key].parse(data[key])
+    if (value !== undefined) {
+      config[key] = value
+    }
+  }
+  return config as Partial<EruditaConfig>
+}
+
+/**
+ * Read the user config file, invalid values are ignored
+ */
+export function readUserConfig(): Partial<EruditaConfig> {
+  const configPath = join(getConfigDir(), CONFIG_FILE)
+  if (!existsSync(configPath)) {
+    return {}
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(configPath, 'utf-8'))
+    return data && typeof data === 'object' && !Array.isArray(data) ? parseConfig(data) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Write the user config file
+ */
+export function writeUserConfig(config: Partial<EruditaConfig>): void {
+  const configDir = getConfigDir()
+  mkdirSync(configDir, { recursive: true })
+  writeFileSync(join(configDir, CONFIG_FILE), JSON.stringify(config, null, 2) + '\n')
+  loadedConfig = null
+}
+
+/**
+ * Validate and save a value in the user config file
+ * @returns The saved value, or undefined if it isn't valid for the key
+ */
+export function setUserConfigValue<K extends ConfigKey>(
+  key: K,
+  value: string,
+): EruditaConfig[K] | undefined {
+  const parsed = CONFIG_KEYS[key].parse(value) as EruditaConfig[K] | undefined
+  if (parsed !== undefined) {
+    writeUserConfig({ ...readUserConfig(), [key]: parsed })
+  }
+  return parsed
+}
+
+/**
+ * Read the config values set through ERUDITA_* environment variables
+ */
+function readEnvConfig(): Partial<EruditaConfig> {
+  const data: Record<string, unknown> = {}
+  for (const key of Object.keys(CONFIG_KEYS) as ConfigKey[]) {
+    data[key] = process.env[CONFIG_KEYS[key].env]
+  }
+  return parseConfig(data)
+}
+
+/**
+ * Resolve every config value with its source
+ * Precedence: the project, then ERUDITA_* environment variables, then the user config
+ * file, then defaults
+ */
+export function resolveConfig(layers: ConfigLayers = {}): {
+  [K in ConfigKey]: { value: EruditaConfig[K]; source: ConfigSource }
+} {
+  const sources: [ConfigSource, Partial<EruditaConfig>][] = [
+    ['project', parseConfig(layers.project || {})],
+    ['env', readEnvConfig()],
+    ['user', readUserConfig()],
+    ['default', getDefaultConfig()],
+  ]
+
+  const resolved: Partial<Record<ConfigKey, { value: unknown; source: ConfigSource }>> = {}
+  for (const key of Object.keys(CONFIG_KEYS) as ConfigKey[]) {
+    const [source, config] = sources.find(([, config]) => config[key] !== undefined)!
+    resolved[key] = { value: config[key], source }
+  }
+  return resolved as ReturnType<typeof resolveConfig>
+}
+
+/**
+ * Load the effective config of ERUDITA_* environment variables, the user config file
+ * and defaults, read once per process
+ */
+export function loadConfig(): EruditaConfig {
+  if (!loadedConfig) {
+    const resolved = resolveConfig()
+    const config = {} as Record<ConfigKey, unknown>
+    for (const key of Object.keys(resolved) as ConfigKey[]) {
+      config[key] = resolved[key].value
+    }
+    loadedConfig = config as EruditaConfig
+  }
+  return loadedConfig
+}
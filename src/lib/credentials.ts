@@ -0,0 +1,174 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { getConfigDir } from './config.ts'
+
+/**
+ * Credentials file in the config directory
+ */
+export const CREDENTIALS_FILE = 'credentials.json'
+/**
+ * Environment variable pointing to another credentials file, e.g. a CI secret
+ */
+export const CREDENTIALS_ENV = 'ERUDITA_CREDENTIALS'
+/**
+ * Prefix of environment variables holding a bearer token for a host,
+ * e.g. ERUDITA_TOKEN_DOCS_EXAMPLE_COM for docs.example.com
+ */
+export const TOKEN_ENV_PREFIX = 'ERUDITA_TOKEN_'
+
+/**
+ * Credentials of a host in the credentials file
+ * Values can reference environment variables with $NAME or ${NAME}
+ */
+export interface HostCredentials {
+  /** Sent as a bearer token */
+  token?: string
+  /** Sent as basic auth with password */
+  username?: string
+  password?: string
+  /** Extra headers, e.g. { "X-Api-Key": "$DOCS_KEY" } */
+  headers?: Record<string, string>
+}
+
+/**
+ * Host (e.g. "docs.example.com", "docs.example.com:8443" or "*.example.com") → credentials
+ */
+export type CredentialsFile = Record<string, HostCredentials>
+
+/**
+ * Replace $NAME and ${NAME} with environment variables
+ * @returns null if a variable isn't set, so no partial secret is sent
+ */
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string | null {
+  let missing = false
+  const expanded = value.replace(/\$(?:\{(\w+)\}|(\w+))/g, (_, braced, name) => {
+    const variable = env[braced || name]
+    if (variable === undefined) {
+      missing = true
+    }
+    return variable || ''
+  })
+  return missing ? null : expanded
+}
+
+/**
+ * Build the headers of host credentials, skipping values with unset variables
+ */
+function credentialsToHeaders(
+  credentials: HostCredentials,
+  env: NodeJS.ProcessEnv,
+): Record<string, string> {
+  const headers: Record<string, string> = {}
+
+  if (credentials.headers && typeof credentials.headers === 'object') {
+    for (const [name, value] of Object.entries(credentials.headers)) {
+      const expanded = typeof value === 'string' ? expandEnv(value, env) : null
+      if (expanded !== null) {
+        headers[name] = expanded
+      }
+    }
+  }
+
+  const token = typeof credentials.token === 'string' ? expandEnv(credentials.token, env) : null
+  const username =
+    typeof credentials.username === 'string' ? expandEnv(credentials.username, env) : null
+  const password =
+    typeof credentials.password === 'string' ? expandEnv(credentials.password, env) : null
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  } else if (username !== null && password !== null) {
+    headers.Authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+  }
+
+  return headers
+}
+
+// Credentials files are read once, every request needs them
+const credentialsFiles = new Map<string, CredentialsFile>()
+
+/**
+ * Read a credentials file, invalid files are ignored
+ */
+function readCredentialsFile(path: string): CredentialsFile {
+  let credentials = credentialsFiles.get(path)
+  if (!credentials) {
+    credentials = parseCredentialsFile(path)
+    credentialsFiles.set(path, credentials)
+  }
+  return credentials
+}
+
+function parseCredentialsFile(path: string): CredentialsFile {
+  if (!existsSync(path)) {
+    return {}
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8'))
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Get the credentials files to read, by precedence: ERUDITA_CREDENTIALS, then the user's file
+ */
+export function getCredentialsFiles(): string[] {
+  const files = [join(getConfigDir(), CREDENTIALS_FILE)]
+  const envFile = process.env[CREDENTIALS_ENV]
+  if (envFile) {
+    files.unshift(envFile)
+  }
+  return files
+}
+
+/**
+ * Find the credentials of a host, the most specific key wins
+ */
+function matchHostCredentials(url: URL, credentials: CredentialsFile): HostCredentials | null {
+  const hostname = url.hostname.toLowerCase()
+  const candidates = [url.host.toLowerCase(), hostname]
+  const key =
+    Object.keys(credentials).find((key) => candidates.includes(key.toLowerCase())) ??
+    Object.keys(credentials)
+      .filter((key) => key.startsWith('*.') && hostname.endsWith(key.slice(1).toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0]
+  const match = key === undefined ? undefined : credentials[key]
+  return match && typeof match === 'object' ? match : null
+}
+
+/**
+ * Get the environment variable holding the token of a host
+ * e.g. docs.example.com → ERUDITA_TOKEN_DOCS_EXAMPLE_COM
+ */
+export function getTokenEnvName(hostname: string): string {
+  return TOKEN_ENV_PREFIX + hostname.toUpperCase().replace(/[^A-Z\d]/g, '_')
+}
+
+/**
+ * Get the auth headers to send to the host of a URL
+ * ERUDITA_TOKEN_<HOST> wins over the credentials files
+ */
+export function getAuthHeaders(
+  url: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return {}
+  }
+
+  const token = env[getTokenEnvName(parsed.hostname)]
+  if (token) {
+    return { Authorization: `Bearer ${token}` }
+  }
+
+  for (const file of getCredentialsFiles()) {
+    const credentials = matchHostCredentials(parsed, readCredentialsFile(file))
+    if (credentials) {
+      return credentialsToHeaders(credentials, env)
+    }
+  }
+  return {}
+}
@@ -0,0 +1,120 @@
+import { existsSync, readFileSync, realpathSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { readLockfileGraph } from './lockfile.ts'
+
+// Dependencies of installed packages followed by the walk, peers included as
+// libraries often expect their framework there
+const TRANSITIVE_FIELDS = ['dependencies', 'optionalDependencies', 'peerDependencies'] as const
+
+interface InstalledPackage {
+  name: string
+  version: string | null
+  /** Directory of the package in node_modules, undefined when read from the lockfile */
+  dir?: string
+  dependencies: string[]
+}
+
+/**
+ * Find an installed package the way Node resolves it, in node_modules of the
+ * directory and its parents
+ */
+function findInstalledPackage(name: string, fromDir: string): InstalledPackage | null {
+  for (let dir = fromDir; ; dir = dirname(dir)) {
+    const pkgPath = join(dir, 'node_modules', name, 'package.json')
+    if (existsSync(pkgPath)) {
+      try {
+        const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'))
+        return {
+          name,
+          version: typeof pkg.version === 'string' ? pkg.version : null,
+          // pnpm links packages, their dependencies are next to the real directory
+          dir: realpathSync(dirname(pkgPath)),
+          dependencies: [
+            ...new Set(TRANSITIVE_FIELDS.flatMap((field) => Object.keys(pkg[field] || {}))),
+          ],
+        }
+      } catch {
+        return null
+      }
+    }
+    if (dirname(dir) === dir) {
+      return null
+    }
+  }
+}
+
+/**
+ * Read the dependencies of direct dependencies, up to `depth` levels below them
+ * Walks node_modules when it exists, the lockfile otherwise
+ * @param dirs - Workspace directories the direct dependencies are declared in
+ * @param versions - Versions of direct dependencies from the lockfile
+ * @returns Names of transitive dependencies that aren't direct ones, with their version
+ */
+export function readTransitiveDeps(
+  cwd: string,
+  dirs: string[],
+  direct: string[],
+  versions: Map<string, string>,
+  depth: number,
+): Map<string, string | null> {
+  const found = new Map<string, string | null>()
+  if (depth < 1 || direct.length === 0) {
+    return found
+  }
+
+  const useNodeModules = existsSync(join(cwd, 'node_modules'))
+  const graph = useNodeModules ? null : readLockfileGraph(cwd)
+
+  const fromLockfile = (name: string, version: string | null): InstalledPackage => ({
+    name,
+    version,
+    dependencies: version ? [...(graph!.get(`${name}@${version}`)?.keys() ?? [])] : [],
+  })
+  const resolve = (name: string, parent?: InstalledPackage): InstalledPackage | null => {
+    if (!useNodeModules) {
+      const version = parent
+        ? (graph!.get(`${parent.name}@${parent.version}`)?.get(name) ?? null)
+        : (versions.get(name) ?? null)
+      return fromLockfile(name, version)
+    }
+    const fromDirs = parent?.dir ? [parent.dir] : dirs.map((dir) => join(cwd, dir))
+    for (const fromDir of fromDirs) {
+      const installed = findInstalledPackage(name, fromDir)
+      if (installed) {
+        return installed
+      }
+    }
+    return null
+  }
+
+  const directNames = new Set(direct)
+  const visited = new Set<string>()
+  let level = direct
+    .map((name) => resolve(name))
+    .filter((pkg): pkg is InstalledPackage => pkg !== null)
+
+  for (let currentDepth = 1; currentDepth <= depth && level.length > 0; currentDepth++) {
+    const next: InstalledPackage[] = []
+    for (const parent of level) {
+      const id = parent.dir ?? `${parent.name}@${parent.version}`
+      if (visited.has(id)) {
+        continue
+      }
+      visited.add(id)
+
+      for (const name of parent.dependencies) {
+        const child = resolve(name, parent)
+        if (!child) {
+          continue
+        }
+        if (!directNames.has(name) && !found.has(name)) {
+          found.set(name, child.version)
+        }
+        next.push(child)
+      }
+    }
+    level = next
+  }
+
+  return found
+}
@@ -1,25 +1,89 @@
-import { extractDocUrls, filterEntriesByPath, parseLlmsTxt, resolveUrl } from './llms-parser.ts'
-import { asyncPool } from './async-pool.ts'
-import type { LlmsDoc, FetchProgressCallback } from '../types.ts'
+import { createHash } from 'node:crypto'
+import { readFileSync, statSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import {
+  extractDocUrls,
+  filterEntriesByPath,
+  parseLlmsTxt,
+  resolveUrl,
+  serializeLlmsTxt,
+  splitLlmsFullTxt,
+} from './llms-parser.ts'
+import { asyncPool, createTaskPool } from './async-pool.ts'
+import type { TaskPool } from './async-pool.ts'
+import { loadConfig } from './config.ts'
+import { checkoutGitSource, getGitCheckoutDir, getGitLlmsTxtPath } from './git.ts'
+import { htmlToMarkdown, parseHtmlAttributes } from './html-to-markdown.ts'
+import { isThrottled, MAX_RETRY_AFTER, parseRetryAfter, transportFetch } from './transport.ts'
+import { isPathInside } from './url-utils.ts'
+import type {
+  ConditionalCache,
+  FetchProgressCallback,
+  FetchProgressEvent,
+  GitSource,
+  HttpValidators,
+  LlmsDoc,
+  LlmsTxtDiscovery,
+} from '../types.ts'
 
 export interface FetchResult {
   success: boolean
   doc?: LlmsDoc
   rawLlmsTxt?: string
+  /** Original content of a full-content llms.txt, split into docFiles */
+  fullLlmsTxt?: string
+  /** Resolved URL of the llms.txt file */
+  llmsTxtUrl?: string
+  /** Path prefix used to filter entries when llms.txt came from the root domain */
+  pathPrefix?: string
+  /** Step of the discovery chain that found the llms.txt */
+  discovery?: LlmsTxtDiscovery
+  /** Fetched doc contents, by cache path */
   docFiles?: Map<string, string>
+  /** Cache path of every doc URL */
+  docPaths?: Map<string, string>
+  /** Doc files the server reported as not modified, kept as cached */
+  notModified?: string[]
+  /** Doc URLs that could not be fetched */
+  failed?: string[]
+  /** Doc files converted from HTML pages to Markdown */
+  htmlDocs?: string[]
+  /** HTTP validators of every fetched URL */
+  validators?: Record<string, HttpValidators>
+  /** Git source with the checked out commit, for docs from a git repository */
+  git?: GitSource & { commit: string }
   error?: string
 }
 
 export interface FetchOptions {
   onProgress?: FetchProgressCallback
   concurrency?: number
+  /** Previously cached state, enables conditional requests */
+  conditional?: ConditionalCache
+  /** Don't download entries of the "Optional" section */
+  skipOptional?: boolean
 }
 
-const DEFAULT_CONCURRENCY = 5
-
 const LLMS_TXT_PATHS = ['/llms.txt', '/llms-full.txt']
-const DEFAULT_TIMEOUT = 10000
-const MAX_RETRIES = 3
+
+/**
+ * Format the errors and throttling of a progress event for status lines,
+ * e.g. " (1 error, 2 throttled, retrying in 3s)"
+ */
+export function formatProgressNotes(event: FetchProgressEvent): string {
+  const notes: string[] = []
+  if (event.errors > 0) {
+    notes.push(`${event.errors} error${event.errors > 1 ? 's' : ''}`)
+  }
+  if (event.throttled) {
+    notes.push(`${event.throttled} throttled`)
+  }
+  if (event.retryAfter !== undefined) {
+    notes.push(`retrying in ${Math.ceil(event.retryAfter / 1000)}s`)
+  }
+  return notes.length > 0 ? ` (${notes.join(', ')})` : ''
+}
 
 /**
  * Extract root domain URL from a full URL
@@ -38,37 +102,144 @@ export function getUrlPath(url: string): string {
   return new URL(url).pathname
 }
 
+/**
+ * Read the cache validators of a response
+ */
+export function getResponseValidators(response: Response): HttpValidators | undefined {
+  const etag = response.headers.get('etag')
+  const lastModified = response.headers.get('last-modified')
+  if (!etag && !lastModified) {
+    return undefined
+  }
+  const validators: HttpValidators = {}
+  if (etag) {
+    validators.etag = etag
+  }
+  if (lastModified) {
+    validators.lastModified = lastModified
+  }
+  return validators
+}
+
+/**
+ * Build conditional request headers from cache validators
+ */
+function getConditionalHeaders(validators?: HttpValidators): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (validators?.etag) {
+    headers['If-None-Match'] = validators.etag
+  }
+  if (validators?.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified
+  }
+  return headers
+}
+
+/**
+ * Whether a URL points to the local file system
+ */
+function isFileUrl(url: string): boolean {
+  return url.startsWith('file:')
+}
+
+/**
+ * Read a local file from its file: URL, null if it isn't a readable file
+ */
+function readLocalFile(url: string): string | null {
+  try {
+    const path = fileURLToPath(url)
+    return statSync(path).isFile() ? readFileSync(path, 'utf-8') : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get the directory a local source can read files from: the directory it points to,
+ * or the one containing its llms.txt
+ */
+function getLocalRoot(url: string): string {
+  const path = fileURLToPath(url)
+  try {
+    return statSync(path).isFile() ? dirname(path) : path
+  } catch {
+    return path
+  }
+}
+
 /**
  * Fetch with timeout and retries
+ * With validators, sends a conditional request and returns 304 responses as is
+ * HEAD requests return 405 and 501 responses as is, for servers that only support GET
+ * Throttled requests (429 and 503) are retried after their Retry-After delay
+ * file: URLs inside localRoot are read from disk, as if they had been fetched,
+ * remote sources never read local files
  */
 async function fetchWithRetry(
   url: string,
-  options: { timeout?: number; retries?: number } = {},
+  options: {
+    method?: 'GET' | 'HEAD'
+    timeout?: number
+    retries?: number
+    validators?: HttpValidators
+    /** Called before waiting to retry a throttled request, with the delay in ms */
+    onThrottle?: (retryAfter: number) => void
+    /** Directory of a local or git source, file: URLs are only read inside it */
+    localRoot?: string
+  } = {},
 ): Promise<Response | null> {
-  const { timeout = DEFAULT_TIMEOUT, retries = MAX_RETRIES } = options
+  const config = loadConfig()
+  const {
+    method,
+    timeout = config.timeout,
+    retries = config.retries,
+    validators,
+    onThrottle,
+    localRoot,
+  } = options
+
+  if (isFileUrl(url)) {
+    if (!localRoot || !isPathInside(localRoot, fileURLToPath(url))) {
+      return null
+    }
+    const content = readLocalFile(url)
+    return content === null ? null : new Response(content)
+  }
 
   for (let attempt = 0; attempt < retries; attempt++) {
+    // Exponential backoff
+    let retryDelay = Math.pow(2, attempt) * 100
     try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-      const response = await fetch(url, {
-        signal: controller.signal,
+      // The timeout starts once the request leaves the download pool and host limits
+      const response = await transportFetch(url, {
+        method,
+        timeout,
         headers: {
           'User-Agent': 'erudita-cli/0.0.0',
           // q= is quality value (0-1) for content negotiation priority
           Accept: 'text/markdown, text/plain;q=0.9, */*;q=0.8',
+          ...getConditionalHeaders(validators),
         },
       })
 
-      clearTimeout(timeoutId)
-
-      if (response.ok) {
+      if (
+        response.ok ||
+        (validators && response.status === 304) ||
+        (method === 'HEAD' && (response.status === 405 || response.status === 501))
+      ) {
         return response
       }
 
-      // Don't retry 4xx errors
-      if (response.status >= 400 && response.status < 500) {
+      if (isThrottled(response)) {
+        // Don't wait for a retry that won't happen, or for a host that is away for long
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+        if (attempt === retries - 1 || (retryAfter ?? 0) > MAX_RETRY_AFTER) {
+          return null
+        }
+        retryDelay = retryAfter ?? retryDelay
+        onThrottle?.(retryDelay)
+      } else if (response.status >= 400 && response.status < 500) {
+        // Don't retry other 4xx errors
         return null
       }
     } catch (error) {
@@ -78,84 +249,387 @@ async function fetchWithRetry(
       }
     }
 
-    // Wait before retry (exponential backoff)
-    await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 100))
+    // Wait before retry
+    await new Promise((resolve) => setTimeout(resolve, retryDelay))
   }
 
   return null
 }
 
+interface LlmsTxtResult {
+  content: string
+  url: string
+  pathPrefix?: string
+  validators?: HttpValidators
+  discovery?: LlmsTxtDiscovery
+}
+
+/**
+ * Fetch an llms.txt file, null if the URL doesn't serve one
+ */
+async function fetchLlmsTxtFile(
+  url: string,
+  conditional?: ConditionalCache,
+  localRoot?: string,
+): Promise<LlmsTxtResult | null> {
+  const validators = conditional?.validators[url]
+  const response = await fetchWithRetry(url, { validators, localRoot })
+  if (response?.status === 304) {
+    // Not modified: reuse the cached llms.txt
+    return {
+      content: conditional!.llmsTxt,
+      url,
+      validators: getResponseValidators(response) || validators,
+    }
+  }
+  if (!response) {
+    return null
+  }
+
+  const content = await response.text()
+  // Basic validation: should contain markdown headers and not be a web page
+  if (
+    !content.includes('#') ||
+    isHtmlContent(response.headers.get('content-type') || '', content)
+  ) {
+    return null
+  }
+  return { content, url, validators: getResponseValidators(response) }
+}
+
 /**
  * Try to fetch llms.txt from a URL, trying multiple paths
  */
-async function tryFetchLlmsTxt(baseUrl: string): Promise<{ content: string; url: string } | null> {
+async function tryFetchLlmsTxt(
+  baseUrl: string,
+  conditional?: ConditionalCache,
+  localRoot?: string,
+): Promise<LlmsTxtResult | null> {
   for (const path of LLMS_TXT_PATHS) {
     const url = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) + path : baseUrl + path
+    const result = await fetchLlmsTxtFile(url, conditional, localRoot)
+    if (result) {
+      return result
+    }
+  }
+
+  return null
+}
 
-    const response = await fetchWithRetry(url)
-    if (response) {
-      const content = await response.text()
-      // Basic validation: should contain markdown headers
-      if (content.includes('#')) {
-        return { content, url }
+/**
+ * Find links to llms.txt files in an HTML page
+ * e.g., <link rel="alternate" type="text/markdown" href="/llms.txt"> or <a href="/llms.txt">
+ */
+export function findLlmsTxtLinks(html: string, pageUrl: string): string[] {
+  const links = new Set<string>()
+  for (const match of html.matchAll(/<(?:link|a)\s([^>]*)>/gi)) {
+    const attrs = parseHtmlAttributes(match[1])
+    if (!attrs.href) {
+      continue
+    }
+    const isLlmsTxt = /\bllms[\w-]*\.txt\b/i.test(attrs.href)
+    const isAlternate =
+      /(^|\s)alternate(\s|$)/i.test(attrs.rel || '') &&
+      /markdown|text\/plain/i.test(attrs.type || '')
+    if (isLlmsTxt || isAlternate) {
+      try {
+        links.add(new URL(attrs.href, pageUrl).href)
+      } catch {
+        // Ignore invalid URLs
       }
     }
   }
+  return [...links]
+}
+
+/**
+ * Look for llms.txt links in the HTML of a homepage
+ */
+async function fetchLinkedLlmsTxt(
+  pageUrl: string,
+  conditional?: ConditionalCache,
+): Promise<LlmsTxtResult | null> {
+  const response = await fetchWithRetry(pageUrl)
+  if (!response) {
+    return null
+  }
+  const html = await response.text()
+  if (!isHtmlContent(response.headers.get('content-type') || '', html)) {
+    return null
+  }
 
+  for (const url of findLlmsTxtLinks(html, pageUrl)) {
+    const result = await fetchLlmsTxtFile(url, conditional)
+    if (result) {
+      return result
+    }
+  }
   return null
 }
 
 /**
- * Try to fetch llms.txt from a base URL
- * Tries multiple paths: /llms.txt, /llms-full.txt
- * If baseUrl has a path and direct fetch fails, tries root domain with path filtering
+ * Locations where docs sites commonly keep their llms.txt, besides the given URL
+ * e.g., https://vuejs.org → https://vuejs.org/docs, https://docs.vuejs.org
+ */
+function getDiscoveryCandidates(baseUrl: string): { step: LlmsTxtDiscovery; url: string }[] {
+  const { hostname, pathname } = new URL(baseUrl)
+  const rootUrl = extractRootUrl(baseUrl)
+
+  // Repositories keep their docs in the default branch, not on github.com
+  const repo = baseUrl.match(/^https?:\/\/(?:www\.)?github\.com\/([^/]+)\/([^/?#]+)/)
+  if (repo) {
+    const rawUrl = `https://raw.githubusercontent.com/${repo[1]}/${repo[2].replace(/\.git$/, '')}/HEAD`
+    return [
+      { step: 'github', url: rawUrl },
+      { step: 'github', url: `${rawUrl}/docs` },
+    ]
+  }
+
+  const candidates: { step: LlmsTxtDiscovery; url: string }[] = []
+  if (!/^\/docs\/?$/.test(pathname)) {
+    candidates.push({ step: 'docs-path', url: `${rootUrl}/docs` })
+  }
+  // Only guess subdomains of actual domain names
+  if (!hostname.startsWith('docs.') && /\.[a-z]{2,}$/i.test(hostname)) {
+    candidates.push({
+      step: 'docs-subdomain',
+      url: `https://docs.${hostname.replace(/^www\./, '')}`,
+    })
+  }
+  return candidates
+}
+
+/**
+ * Try to fetch llms.txt from a base URL, following a discovery chain:
+ * 1. the base URL itself: /llms.txt, /llms-full.txt
+ * 2. the root domain, filtering entries by the base URL path
+ * 3. /docs on the root domain, then the docs. subdomain (raw files of the default branch for GitHub repositories)
+ * 4. llms.txt links in the homepage HTML
+ * Fragments like #readme are ignored. The result records the step that found the file.
+ * A file: URL can point to the llms.txt itself or to the directory containing it
  */
 export async function fetchLlmsTxt(
   baseUrl: string,
-): Promise<{ content: string; url: string; pathPrefix?: string } | null> {
-  // Try direct fetch first (existing behavior)
-  const directResult = await tryFetchLlmsTxt(baseUrl)
+  conditional?: ConditionalCache,
+): Promise<LlmsTxtResult | null> {
+  if (isFileUrl(baseUrl)) {
+    const content = readLocalFile(baseUrl)
+    if (content !== null) {
+      return content.includes('#') ? { content, url: baseUrl, discovery: 'direct' } : null
+    }
+    const result = await tryFetchLlmsTxt(baseUrl, conditional, getLocalRoot(baseUrl))
+    return result && { ...result, discovery: 'direct' }
+  }
+
+  // Fragments only matter to browsers, e.g. https://github.com/vuejs/core#readme
+  const url = baseUrl.replace(/#.*$/, '')
+
+  const directResult = await tryFetchLlmsTxt(url, conditional)
   if (directResult) {
-    return directResult
+    return { ...directResult, discovery: 'direct' }
   }
 
-  // If baseUrl has a path, try root domain fallback
-  const urlPath = getUrlPath(baseUrl)
-  if (urlPath && urlPath !== '/') {
-    const rootUrl = extractRootUrl(baseUrl)
-    const rootResult = await tryFetchLlmsTxt(rootUrl)
+  // If the URL has a path, try root domain fallback
+  // The root of github.com documents GitHub, not the repository
+  const urlPath = getUrlPath(url)
+  if (urlPath && urlPath !== '/' && new URL(url).hostname !== 'github.com') {
+    const rootUrl = extractRootUrl(url)
+    const rootResult = await tryFetchLlmsTxt(rootUrl, conditional)
     if (rootResult) {
       // Return with pathPrefix so caller can filter entries
-      return { ...rootResult, pathPrefix: urlPath }
+      return { ...rootResult, pathPrefix: urlPath, discovery: 'root' }
     }
   }
 
+  for (const candidate of getDiscoveryCandidates(url)) {
+    const result = await tryFetchLlmsTxt(candidate.url, conditional)
+    if (result) {
+      return { ...result, discovery: candidate.step }
+    }
+  }
+
+  const linkedResult = await fetchLinkedLlmsTxt(url, conditional)
+  if (linkedResult) {
+    return { ...linkedResult, discovery: 'homepage-link' }
+  }
+
   return null
 }
 
 /**
- * Fetch a single documentation file
+ * Whether an llms.txt holds the docs themselves instead of links to them
+ */
+export function isFullLlmsTxt(url: string, doc: LlmsDoc): boolean {
+  return doc.entries.length === 0 || getUrlPath(url).endsWith('/llms-full.txt')
+}
+
+/**
+ * Split a full-content llms.txt into docs with synthesized entries
+ * Entries point to the sections of the original file, e.g. llms-full.txt#routing
+ */
+function createFullContentDocs(llmsResult: LlmsTxtResult, onProgress?: FetchProgressCallback) {
+  const { preamble, sections } = splitLlmsFullTxt(llmsResult.content)
+  const preambleDoc = parseLlmsTxt(preamble)
+  const doc: LlmsDoc = {
+    title: preambleDoc.title || new URL(llmsResult.url).host,
+    description: preambleDoc.description,
+    details: preambleDoc.details,
+    entries: [],
+    sections: [],
+  }
+  const docFiles = new Map<string, string>()
+  const docPaths = new Map<string, string>()
+
+  for (const section of sections) {
+    const url = `${llmsResult.url}#${section.slug}`
+    const filename = `${section.slug}.md`
+    doc.entries.push({ title: section.title, url })
+    docFiles.set(filename, section.content)
+    docPaths.set(url, filename)
+  }
+
+  onProgress?.({
+    phase: 'docs',
+    total: sections.length,
+    completed: sections.length,
+    errors: 0,
+    url: llmsResult.url,
+  })
+
+  return { doc, docFiles, docPaths }
+}
+
+/**
+ * Whether a response is an HTML page rather than Markdown or plain text
+ * Servers often send markdown as text/html and HTML as text/plain, so the markup is checked too
+ */
+export function isHtmlContent(contentType: string, content: string): boolean {
+  if (/markdown/i.test(contentType)) {
+    return false
+  }
+  if (/^\s*(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html|head|body)[\s>]/i.test(content)) {
+    return true
+  }
+  return (
+    /html/i.test(contentType) && /<\/(p|div|h[1-6]|ul|ol|pre|table|article|main)>/i.test(content)
+  )
+}
+
+/**
+ * Read the content of a doc response, converting HTML pages to Markdown
+ */
+async function readDocResponse(
+  response: Response,
+  url: string,
+): Promise<{ content: string; html: boolean }> {
+  const content = await response.text()
+  if (!isHtmlContent(response.headers.get('content-type') || '', content)) {
+    return { content, html: false }
+  }
+  return { content: htmlToMarkdown(content, url), html: true }
+}
+
+/**
+ * Fetch a file as served, without converting HTML pages
  */
-export async function fetchDocFile(url: string): Promise<string | null> {
+export async function fetchRawFile(
+  url: string,
+): Promise<{ content: string; contentType: string } | null> {
   const response = await fetchWithRetry(url)
   if (!response) {
     return null
   }
-  return response.text()
+  return { content: await response.text(), contentType: response.headers.get('content-type') || '' }
+}
+
+/**
+ * Check that a URL can be fetched, without downloading it from servers supporting HEAD
+ */
+export async function urlExists(url: string): Promise<boolean> {
+  const response = await fetchWithRetry(url, { method: 'HEAD' })
+  if (response?.status === 405 || response?.status === 501) {
+    return (await fetchWithRetry(url)) !== null
+  }
+  return response !== null
+}
+
+// Refs of a repository share its working tree, one is checked out and read at a time
+const gitCheckoutLocks = new Map<string, TaskPool>()
+
+/**
+ * Check out a git source and read its llms.txt and linked docs from the working tree
+ */
+function fetchGitSourceDocs(source: GitSource, options?: FetchOptions): Promise<FetchResult> {
+  const dir = getGitCheckoutDir(source.git)
+  let lock = gitCheckoutLocks.get(dir)
+  if (!lock) {
+    lock = createTaskPool(1)
+    gitCheckoutLocks.set(dir, lock)
+  }
+  return lock(() => checkoutGitSourceDocs(source, options))
+}
+
+async function checkoutGitSourceDocs(
+  source: GitSource,
+  options?: FetchOptions,
+): Promise<FetchResult> {
+  let checkout: { dir: string; commit: string }
+  try {
+    checkout = await checkoutGitSource(source)
+  } catch (error) {
+    return {
+      success: false,
+      error: `Could not check out ${source.ref || 'HEAD'} of ${source.git}: ${(error as Error).message}`,
+    }
+  }
+
+  let llmsTxtPath: string
+  try {
+    llmsTxtPath = getGitLlmsTxtPath(source, checkout.dir)
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+
+  const llmsTxtUrl = pathToFileURL(llmsTxtPath).href
+  // Docs can link to any file of the repository
+  const result = await fetchUrlDocs(llmsTxtUrl, options, checkout.dir)
+  const { git, ref, path } = source
+  return { ...result, git: { git, ref, path, commit: checkout.commit } }
 }
 
 /**
  * Fetch llms.txt and all linked documentation files
+ * The source is a website URL, a file: URL or a git repository
  */
 export async function fetchPackageDocs(
-  baseUrl: string,
+  source: string | GitSource,
   options?: FetchOptions,
 ): Promise<FetchResult> {
-  const { onProgress, concurrency = DEFAULT_CONCURRENCY } = options || {}
+  if (typeof source !== 'string') {
+    return fetchGitSourceDocs(source, options)
+  }
+  return fetchUrlDocs(source, options, isFileUrl(source) ? getLocalRoot(source) : undefined)
+}
+
+/**
+ * Fetch the llms.txt of a website or a file: URL and its linked docs
+ * @param localRoot - Directory local docs are read from, undefined for remote sources
+ */
+async function fetchUrlDocs(
+  baseUrl: string,
+  options: FetchOptions | undefined,
+  localRoot: string | undefined,
+): Promise<FetchResult> {
+  const {
+    onProgress,
+    concurrency = loadConfig().concurrency,
+    conditional,
+    skipOptional,
+  } = options || {}
 
   // Fetch llms.txt
   onProgress?.({ phase: 'llms-txt', total: 1, completed: 0, errors: 0 })
-  const llmsResult = await fetchLlmsTxt(baseUrl)
+  const llmsResult = await fetchLlmsTxt(baseUrl, conditional)
   if (!llmsResult) {
     return {
       success: false,
@@ -165,6 +639,31 @@ export async function fetchPackageDocs(
 
   // Parse the content
   const doc = parseLlmsTxt(llmsResult.content)
+  const validators: Record<string, HttpValidators> = {}
+  if (llmsResult.validators) {
+    validators[llmsResult.url] = llmsResult.validators
+  }
+
+  // Full-content files have nothing to fetch, their sections become the docs
+  // Sections have no URL path to filter on, so this doesn't apply with a path prefix
+  if (!llmsResult.pathPrefix && isFullLlmsTxt(llmsResult.url, doc)) {
+    const full = createFullContentDocs(llmsResult, onProgress)
+    if (full.doc.entries.length > 0) {
+      return {
+        success: true,
+        doc: full.doc,
+        rawLlmsTxt: serializeLlmsTxt(full.doc),
+        fullLlmsTxt: llmsResult.content,
+        llmsTxtUrl: llmsResult.url,
+        discovery: llmsResult.discovery,
+        docFiles: full.docFiles,
+        docPaths: full.docPaths,
+        notModified: [],
+        failed: [],
+        validators,
+      }
+    }
+  }
 
   // Filter entries by path prefix if fetched from root domain
   if (llmsResult.pathPrefix) {
@@ -185,44 +684,176 @@ export async function fetchPackageDocs(
     }
   }
 
-  // Fetch all linked documentation files
-  const docUrls = extractDocUrls(doc, llmsResult.url)
+  // Fetch all linked documentation files, optional ones only when asked for
+  const docUrls = extractDocUrls(
+    skipOptional ? { ...doc, entries: doc.entries.filter((entry) => !entry.optional) } : doc,
+    llmsResult.url,
+  )
+  const docPaths = getDocPaths(docUrls, llmsResult.url)
   const docFiles = new Map<string, string>()
+  const notModified: string[] = []
+  const failed: string[] = []
+  const htmlDocs: string[] = []
 
   let completed = 0
   let errors = 0
+  let throttled = 0
   const total = docUrls.length
 
   await asyncPool(concurrency, docUrls, async (url) => {
-    const content = await fetchDocFile(url)
-    if (content) {
-      // Use the path part of the URL as the filename
-      const urlObj = new URL(url)
-      const filename = urlObj.pathname.split('/').pop() || 'doc.md'
-      docFiles.set(filename, content)
+    const previous = conditional?.validators[url]
+    const response = await fetchWithRetry(url, {
+      validators: previous,
+      localRoot,
+      onThrottle(retryAfter) {
+        throttled++
+        onProgress?.({ phase: 'docs', total, completed, errors, throttled, url, retryAfter })
+      },
+    })
+    const filename = docPaths.get(url)!
+    if (response?.status === 304) {
+      notModified.push(filename)
+      if (conditional?.htmlDocs?.includes(filename)) {
+        htmlDocs.push(filename)
+      }
+      validators[url] = getResponseValidators(response) || previous!
       completed++
     } else {
-      errors++
+      const { content, html } = response
+        ? await readDocResponse(response, url)
+        : { content: null, html: false }
+      if (content) {
+        docFiles.set(filename, content)
+        if (html) {
+          htmlDocs.push(filename)
+        }
+        const responseValidators = getResponseValidators(response!)
+        if (responseValidators) {
+          validators[url] = responseValidators
+        }
+        completed++
+      } else {
+        failed.push(url)
+        errors++
+      }
     }
-    onProgress?.({ phase: 'docs', total, completed, errors, url })
+    onProgress?.({ phase: 'docs', total, completed, errors, throttled, url })
   })
 
   return {
     success: true,
     doc,
     rawLlmsTxt: llmsResult.content,
+    llmsTxtUrl: llmsResult.url,
+    pathPrefix: llmsResult.pathPrefix,
+    discovery: llmsResult.discovery,
     docFiles,
+    docPaths,
+    notModified,
+    failed,
+    htmlDocs: htmlDocs.length > 0 ? htmlDocs.sort() : undefined,
+    validators,
+  }
+}
+
+/**
+ * Short hash used to keep cache paths unique
+ */
+function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 8)
+}
+
+/**
+ * Insert a suffix before the extension of a path
+ * e.g., guide/index.md + abc → guide/index.abc.md
+ */
+function addPathSuffix(path: string, suffix: string): string {
+  const match = path.match(/^(.*[^/])(\.[^./]+)$/)
+  return match ? `${match[1]}.${suffix}${match[2]}` : `${path}.${suffix}`
+}
+
+/**
+ * Make a path segment safe to use as a file or directory name on every platform
+ */
+function toSafeSegment(segment: string): string {
+  let decoded = segment
+  try {
+    decoded = decodeURIComponent(segment)
+  } catch {
+    // Keep malformed escapes as is
   }
+  return decoded.replace(/[<>:"/\\|?*\p{Cc}]/gu, '_')
 }
 
 /**
- * Get the filename from a URL
+ * Get the cache path of a doc from its URL, preserving its directories
+ * e.g., https://vuejs.org/guide/index.md → guide/index.md
+ * Paths without an extension or ending in .html get .md, query strings become a hash suffix and
+ * docs hosted on another domain than `baseUrl` are stored under that domain
+ * Local docs (file: URLs) keep their path relative to the llms.txt directory
  */
-export function getFilenameFromUrl(url: string): string {
+export function getDocPathFromUrl(url: string, baseUrl?: string): string {
+  let parsed: URL
   try {
-    const urlObj = new URL(url)
-    return urlObj.pathname.split('/').pop() || 'doc.md'
+    parsed = new URL(url)
   } catch {
     return 'doc.md'
   }
+
+  let base: URL | null = null
+  try {
+    base = baseUrl ? new URL(baseUrl) : null
+  } catch {
+    // Treat invalid base URLs as missing
+  }
+
+  // Local docs are stored relative to the directory of the llms.txt
+  let pathname = parsed.pathname
+  if (parsed.protocol === 'file:' && base?.protocol === 'file:') {
+    const baseDir = new URL('.', base).pathname
+    if (pathname.startsWith(baseDir)) {
+      pathname = pathname.slice(baseDir.length - 1)
+    }
+  }
+
+  const segments = pathname
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .map(toSafeSegment)
+  if (segments.length === 0 || pathname.endsWith('/')) {
+    segments.push('index.md')
+  } else if (!/\.[\w-]+$/.test(segments[segments.length - 1])) {
+    segments[segments.length - 1] += '.md'
+  } else {
+    // HTML pages are stored converted to Markdown
+    segments[segments.length - 1] = segments[segments.length - 1].replace(/\.html?$/i, '.md')
+  }
+  if (base && base.host !== parsed.host) {
+    segments.unshift(toSafeSegment(parsed.host))
+  }
+
+  const path = segments.join('/')
+  // The fragment doesn't change the fetched document, only the query does
+  return parsed.search ? addPathSuffix(path, shortHash(parsed.search)) : path
+}
+
+/**
+ * Get a unique cache path for every doc URL
+ * Paths only differing by case get a hash suffix for case-insensitive file systems
+ */
+export function getDocPaths(urls: string[], baseUrl?: string): Map<string, string> {
+  const docPaths = new Map<string, string>()
+  const usedPaths = new Set<string>()
+  for (const url of urls) {
+    if (docPaths.has(url)) {
+      continue
+    }
+    let path = getDocPathFromUrl(url, baseUrl)
+    if (usedPaths.has(path.toLowerCase())) {
+      path = addPathSuffix(path, shortHash(url))
+    }
+    usedPaths.add(path.toLowerCase())
+    docPaths.set(url, path)
+  }
+  return docPaths
 }
@@ -0,0 +1,106 @@
+import { execFile } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { promisify } from 'node:util'
+import type { GitSource } from '../types.ts'
+import { getCacheDir } from './cache.ts'
+import { isPathInside } from './url-utils.ts'
+
+const execFileAsync = promisify(execFile)
+
+const DEFAULT_LLMS_TXT_PATH = 'llms.txt'
+
+/**
+ * Run a git command, rejects with git's error output when it fails
+ */
+async function git(args: string[], cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      // Never wait for credentials on a terminal
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    })
+    return stdout.trim()
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim()
+    throw new Error(stderr || (error as Error).message)
+  }
+}
+
+/**
+ * Get the working tree directory of a git source
+ * Checkouts are kept in the cache so later fetches only download new commits
+ */
+export function getGitCheckoutDir(repo: string): string {
+  const hash = createHash('sha256').update(repo).digest('hex').slice(0, 12)
+  return join(getCacheDir(), 'git', hash)
+}
+
+/**
+ * Path of the llms.txt of a git source in its checkout directory
+ * Throws if the path leaves the checkout
+ */
+export function getGitLlmsTxtPath(source: GitSource, dir: string): string {
+  const path = resolve(dir, source.path || DEFAULT_LLMS_TXT_PATH)
+  if (!isPathInside(dir, path)) {
+    throw new Error(`Path ${source.path} is outside of the repository`)
+  }
+  return path
+}
+
+/**
+ * Reject repositories and refs git would read as options, e.g. --upload-pack=...
+ */
+function assertGitArguments(source: GitSource): void {
+  if (source.git.startsWith('-')) {
+    throw new Error(`Invalid git repository "${source.git}"`)
+  }
+  if (source.ref?.startsWith('-')) {
+    throw new Error(`Invalid git ref "${source.ref}"`)
+  }
+}
+
+/**
+ * Check out the ref of a git source with the system git
+ * Fetches only the requested commit, falling back to the whole history for commits
+ * the server doesn't let us fetch directly
+ * @returns The checkout directory and the checked out commit
+ */
+export async function checkoutGitSource(
+  source: GitSource,
+): Promise<{ dir: string; commit: string }> {
+  assertGitArguments(source)
+  const dir = getGitCheckoutDir(source.git)
+  if (!existsSync(join(dir, '.git'))) {
+    mkdirSync(dir, { recursive: true })
+    await git(['init', '--quiet'], dir)
+  }
+
+  const ref = source.ref || 'HEAD'
+  let target = 'FETCH_HEAD'
+  try {
+    await git(['fetch', '--quiet', '--depth', '1', '--end-of-options', source.git, ref], dir)
+  } catch {
+    const unshallow = existsSync(join(dir, '.git', 'shallow')) ? ['--unshallow'] : []
+    await git(
+      [
+        'fetch',
+        '--quiet',
+        ...unshallow,
+        '--end-of-options',
+        source.git,
+        '+refs/heads/*:refs/remotes/origin/*',
+        '+refs/tags/*:refs/tags/*',
+      ],
+      dir,
+    )
+    target = ref
+  }
+
+  // checkout takes no --end-of-options, refs starting with - are rejected above
+  await git(['checkout', '--quiet', '--force', '--detach', target], dir)
+  await git(['clean', '--quiet', '--force', '-d', '-x'], dir)
+  const commit = await git(['rev-parse', 'HEAD'], dir)
+  return { dir, commit }
+}
@@ -0,0 +1,591 @@
+/**
+ * Element of a parsed HTML document
+ */
+interface HtmlElement {
+  type: 'element'
+  tag: string
+  attrs: Record<string, string>
+  children: HtmlNode[]
+  parent: HtmlElement | null
+}
+
+interface HtmlText {
+  type: 'text'
+  text: string
+}
+
+type HtmlNode = HtmlElement | HtmlText
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+])
+
+// Their content is text up to the closing tag, even if it looks like markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title'])
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'body',
+  'center',
+  'details',
+  'dialog',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hgroup',
+  'hr',
+  'html',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+])
+
+// Elements that never hold documentation content
+const DROPPED_TAGS = new Set([
+  'aside',
+  'button',
+  'canvas',
+  'embed',
+  'footer',
+  'form',
+  'head',
+  'iframe',
+  'input',
+  'link',
+  'meta',
+  'nav',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+  'title',
+])
+
+const DROPPED_ROLES = new Set(['banner', 'contentinfo', 'navigation', 'search'])
+
+// Open elements closed by the start of another one, e.g. <li> by the next <li>
+const IMPLIED_END_TAGS: Record<string, (tag: string) => boolean> = {
+  p: (tag) => BLOCK_TAGS.has(tag),
+  li: (tag) => tag === 'li',
+  dt: (tag) => tag === 'dt' || tag === 'dd',
+  dd: (tag) => tag === 'dt' || tag === 'dd',
+  tr: (tag) => tag === 'tr',
+  td: (tag) => tag === 'td' || tag === 'th' || tag === 'tr',
+  th: (tag) => tag === 'td' || tag === 'th' || tag === 'tr',
+  option: (tag) => tag === 'option',
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  thinsp: ' ',
+  shy: '',
+  zwj: '',
+  zwnj: '',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  times: '×',
+  divide: '÷',
+  larr: '←',
+  rarr: '→',
+  uarr: '↑',
+  darr: '↓',
+  harr: '↔',
+  deg: '°',
+  para: '¶',
+  sect: '§',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+}
+
+const TOKEN_RE =
+  /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g
+const ATTR_RE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#\d+|#x[\da-f]+|[a-z]+\d*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10)
+      try {
+        return String.fromCodePoint(code)
+      } catch {
+        return match
+      }
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Parse the attributes of a start tag, e.g. ` href="/a" hidden` → { href: '/a', hidden: '' }
+ */
+export function parseHtmlAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const match of source.matchAll(ATTR_RE)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? ''
+    attrs[match[1].toLowerCase()] = decodeEntities(value)
+  }
+  return attrs
+}
+
+/**
+ * Parse HTML into a tree, forgiving about unclosed and stray tags
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [], parent: null }
+  let current = root
+  let index = 0
+
+  const addText = (text: string) => {
+    if (text) {
+      current.children.push({ type: 'text', text: decodeEntities(text) })
+    }
+  }
+
+  TOKEN_RE.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = TOKEN_RE.exec(html))) {
+    addText(html.slice(index, match.index))
+    index = TOKEN_RE.lastIndex
+
+    const [token, closeTag, openTag, attrSource] = match
+    if (closeTag) {
+      // Close the matching open element and everything left open inside it
+      const tag = closeTag.toLowerCase()
+      let element: HtmlElement | null = current
+      while (element && element.tag !== tag) {
+        element = element.parent
+      }
+      if (element?.parent) {
+        current = element.parent
+      }
+      continue
+    }
+    if (!openTag) {
+      // Comment, doctype or processing instruction
+      continue
+    }
+
+    const tag = openTag.toLowerCase()
+    while (current.parent && IMPLIED_END_TAGS[current.tag]?.(tag)) {
+      current = current.parent
+    }
+
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attrs: parseHtmlAttributes(attrSource || ''),
+      children: [],
+      parent: current,
+    }
+    current.children.push(element)
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Searched in place, lowercasing the document can shift the indexes of other characters
+      const endRe = new RegExp(`</${tag}`, 'gi')
+      endRe.lastIndex = index
+      const end = endRe.exec(html)?.index ?? -1
+      const text = html.slice(index, end === -1 ? html.length : end)
+      element.children.push({ type: 'text', text: tag === 'title' ? decodeEntities(text) : text })
+      index = end === -1 ? html.length : end
+      TOKEN_RE.lastIndex = index
+    } else if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+      current = element
+    }
+  }
+  addText(html.slice(index))
+
+  return root
+}
+
+function findElement(
+  element: HtmlElement,
+  predicate: (element: HtmlElement) => boolean,
+): HtmlElement | null {
+  for (const child of element.children) {
+    if (child.type !== 'element') {
+      continue
+    }
+    if (predicate(child)) {
+      return child
+    }
+    const found = findElement(child, predicate)
+    if (found) {
+      return found
+    }
+  }
+  return null
+}
+
+/**
+ * Text of a node as is, for code blocks
+ */
+function getTextContent(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return node.text
+  }
+  if (node.tag === 'br') {
+    return '\n'
+  }
+  return node.children.map(getTextContent).join('')
+}
+
+interface RenderContext {
+  /** Base URL to resolve links and images */
+  baseUrl?: string
+  /** Drop <header> elements, only when the page has no main content element */
+  dropHeader: boolean
+}
+
+function isDropped(element: HtmlElement, context: RenderContext): boolean {
+  return (
+    DROPPED_TAGS.has(element.tag) ||
+    (context.dropHeader && element.tag === 'header') ||
+    DROPPED_ROLES.has(element.attrs.role) ||
+    element.attrs['aria-hidden'] === 'true' ||
+    'hidden' in element.attrs
+  )
+}
+
+function resolveHref(href: string, context: RenderContext): string {
+  if (!context.baseUrl) {
+    return href
+  }
+  try {
+    return new URL(href, context.baseUrl).href
+  } catch {
+    return href
+  }
+}
+
+/**
+ * Wrap inline text with a delimiter, keeping surrounding spaces outside of it
+ */
+function wrapInline(text: string, delimiter: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!
+  return match[2] ? `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}` : text
+}
+
+function renderInlineCode(text: string): string {
+  const code = text.replace(/\s+/g, ' ')
+  if (!code.trim()) {
+    return code
+  }
+  const fence = code.includes('`') ? '``' : '`'
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : ''
+  return `${fence}${padding}${code}${padding}${fence}`
+}
+
+function renderInline(nodes: HtmlNode[], context: RenderContext): string {
+  let text = ''
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      text += node.text.replace(/\s+/g, ' ')
+      continue
+    }
+    if (isDropped(node, context)) {
+      continue
+    }
+
+    switch (node.tag) {
+      case 'br':
+        text += '\n'
+        break
+      case 'img': {
+        const src = node.attrs.src
+        if (src) {
+          text += `![${node.attrs.alt || ''}](${resolveHref(src, context)})`
+        }
+        break
+      }
+      case 'a': {
+        const label = renderInline(node.children, context).trim()
+        const href = node.attrs.href
+        if (!href || href.startsWith('javascript:')) {
+          text += label
+        } else if (href.startsWith('#')) {
+          // Heading permalinks like <a href="#usage">#</a> carry no text
+          text += /[\p{L}\p{N}]/u.test(label) ? label : ''
+        } else if (label) {
+          text += `[${label}](${resolveHref(href, context)})`
+        }
+        break
+      }
+      case 'strong':
+      case 'b':
+        text += wrapInline(renderInline(node.children, context), '**')
+        break
+      case 'em':
+      case 'i':
+        text += wrapInline(renderInline(node.children, context), '_')
+        break
+      case 'del':
+      case 's':
+      case 'strike':
+        text += wrapInline(renderInline(node.children, context), '~~')
+        break
+      case 'code':
+      case 'kbd':
+      case 'samp':
+      case 'tt':
+        text += renderInlineCode(getTextContent(node))
+        break
+      default: {
+        const content = renderInline(node.children, context)
+        // Blocks nested in inline elements still need some separation
+        text += BLOCK_TAGS.has(node.tag) ? ` ${content} ` : content
+      }
+    }
+  }
+  return text
+}
+
+/**
+ * Render inline content as a paragraph, cleaning up spaces around line breaks
+ */
+function renderParagraph(nodes: HtmlNode[], context: RenderContext): string {
+  return renderInline(nodes, context)
+    .replace(/ *\n */g, '\n')
+    .replace(/ {2,}/g, ' ')
+    .trim()
+}
+
+function indent(text: string, size: number): string {
+  const padding = ' '.repeat(size)
+  return text
+    .split('\n')
+    .map((line, index) => (index === 0 || !line ? line : padding + line))
+    .join('\n')
+}
+
+function renderCodeBlock(element: HtmlElement): string {
+  const code = findElement(element, (child) => child.tag === 'code')
+  const className = `${code?.attrs.class || ''} ${element.attrs.class || ''}`
+  const language = className.match(/(?:^|\s)(?:language|lang)-([\w+#.-]+)/)?.[1] || ''
+  const content = getTextContent(element).replace(/^\n/, '').replace(/\n$/, '')
+  const longestFence = Math.max(2, ...(content.match(/`{3,}/g) || []).map((f) => f.length))
+  const fence = '`'.repeat(longestFence + 1)
+  return `${fence}${language}\n${content}\n${fence}`
+}
+
+function renderList(element: HtmlElement, context: RenderContext): string {
+  const ordered = element.tag === 'ol'
+  let index = Number(element.attrs.start) || 1
+  const items: string[] = []
+  for (const child of element.children) {
+    if (child.type !== 'element' || child.tag !== 'li') {
+      continue
+    }
+    const marker = ordered ? `${index++}. ` : '- '
+    const body = renderBlocks(child.children, context, '\n')
+    items.push(marker + indent(body, marker.length))
+  }
+  return items.join('\n')
+}
+
+function renderTable(element: HtmlElement, context: RenderContext): string {
+  const rows: string[][] = []
+  const collectRows = (parent: HtmlElement) => {
+    for (const child of parent.children) {
+      if (child.type !== 'element') {
+        continue
+      }
+      if (child.tag === 'tr') {
+        const cells = child.children.filter(
+          (cell): cell is HtmlElement =>
+            cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'),
+        )
+        rows.push(
+          cells.map((cell) =>
+            renderParagraph(cell.children, context).replace(/\n/g, ' ').replace(/\|/g, '\\|'),
+          ),
+        )
+      } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+        collectRows(child)
+      }
+    }
+  }
+  collectRows(element)
+  if (rows.length === 0) {
+    return ''
+  }
+
+  const width = Math.max(...rows.map((row) => row.length))
+  const lines = rows.map((row) => {
+    const cells = [...row, ...Array(width - row.length).fill('')]
+    return `| ${cells.join(' | ')} |`
+  })
+  lines.splice(1, 0, `| ${Array(width).fill('---').join(' | ')} |`)
+  return lines.join('\n')
+}
+
+function renderBlockElement(element: HtmlElement, context: RenderContext): string {
+  switch (element.tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderParagraph(element.children, context).replace(/\n/g, ' ')
+      return text ? `${'#'.repeat(Number(element.tag[1]))} ${text}` : ''
+    }
+    case 'p':
+      return renderParagraph(element.children, context)
+    case 'pre':
+      return renderCodeBlock(element)
+    case 'ul':
+    case 'ol':
+      return renderList(element, context)
+    case 'table':
+      return renderTable(element, context)
+    case 'hr':
+      return '---'
+    case 'blockquote':
+      return renderBlocks(element.children, context)
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n')
+    default:
+      return renderBlocks(element.children, context)
+  }
+}
+
+/**
+ * Render a list of nodes as Markdown blocks
+ * Consecutive inline nodes are grouped into paragraphs
+ */
+function renderBlocks(nodes: HtmlNode[], context: RenderContext, separator = '\n\n'): string {
+  const blocks: string[] = []
+  let inline: HtmlNode[] = []
+
+  const flushInline = () => {
+    const paragraph = renderParagraph(inline, context)
+    if (paragraph) {
+      blocks.push(paragraph)
+    }
+    inline = []
+  }
+
+  for (const node of nodes) {
+    if (node.type === 'element' && isDropped(node, context)) {
+      continue
+    }
+    if (node.type === 'text' || !BLOCK_TAGS.has(node.tag)) {
+      inline.push(node)
+      continue
+    }
+    flushInline()
+    const block = renderBlockElement(node, context)
+    if (block) {
+      blocks.push(block)
+    }
+  }
+  flushInline()
+
+  return blocks.join(separator)
+}
+
+/**
+ * Convert an HTML page to Markdown
+ * Keeps the main content (<main>, role="main", <article> or <body>) and drops
+ * navigation, scripts, styles and other page chrome
+ * @param baseUrl - URL of the page, to make links and images absolute
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const root = parseHtml(html)
+  const main =
+    findElement(root, (element) => element.tag === 'main') ||
+    findElement(root, (element) => element.attrs.role === 'main') ||
+    findElement(root, (element) => element.tag === 'article')
+  const context: RenderContext = { baseUrl, dropHeader: !main }
+
+  let markdown = renderBlocks((main || root).children, context)
+
+  // Pages without a heading in their content still have a title
+  const title = findElement(root, (element) => element.tag === 'title')
+  const titleText = title ? getTextContent(title).replace(/\s+/g, ' ').trim() : ''
+  if (titleText && !/^# /m.test(markdown)) {
+    markdown = `# ${titleText}\n\n${markdown}`
+  }
+
+  return (
+    markdown
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim() + '\n'
+  )
+}
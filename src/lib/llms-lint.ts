@@ -0,0 +1,197 @@
+import { asyncPool } from './async-pool.ts'
+import { resolveUrl, tokenizeLlmsTxt } from './llms-parser.ts'
+import type { LlmsToken } from './llms-parser.ts'
+
+const LINK_CHECK_CONCURRENCY = 5
+
+export type LintSeverity = 'error' | 'warning'
+
+/**
+ * Problem found in an llms.txt file
+ */
+export interface LintDiagnostic {
+  /** 1-based line number */
+  line: number
+  /** 1-based column */
+  column: number
+  severity: LintSeverity
+  /** Identifier of the check, e.g. "missing-h1" */
+  rule: string
+  message: string
+}
+
+export interface LintOptions {
+  /** URL the llms.txt is served from (or file: URL), to resolve relative links */
+  baseUrl?: string
+  /** Check that a resolved relative link exists */
+  linkExists?: (url: string) => Promise<boolean>
+}
+
+/**
+ * Whether a URL is relative, e.g. ./guide.md or /docs/guide.md
+ */
+function isRelativeUrl(url: string): boolean {
+  return !/^[a-z][a-z\d+.-]*:/i.test(url)
+}
+
+/**
+ * Check a line that failed to parse as a link but looks like one
+ */
+function lintMalformedLink(token: LlmsToken): LintDiagnostic | null {
+  const trimmed = token.raw.trim()
+  if (!/^([-*]\s*)?\[/.test(trimmed) || !trimmed.includes('](')) {
+    return null
+  }
+
+  // Nested brackets end the link text early, so the parser drops the line
+  if (/^([-*]\s*)?\[.*[[\]].*\]\([^)]+\)(:\s*.+)?$/.test(trimmed)) {
+    return {
+      line: token.line,
+      column: token.column,
+      severity: 'error',
+      rule: 'link-brackets',
+      message: 'Link text contains brackets',
+    }
+  }
+
+  return {
+    line: token.line,
+    column: token.column,
+    severity: 'error',
+    rule: 'malformed-link',
+    message: 'Malformed link, expected "- [title](url): description"',
+  }
+}
+
+/**
+ * Check llms.txt content against the llms.txt proposal
+ * Diagnostics are sorted by position
+ */
+export async function lintLlmsTxt(
+  content: string,
+  options: LintOptions = {},
+): Promise<LintDiagnostic[]> {
+  const { baseUrl, linkExists } = options
+  const tokens = tokenizeLlmsTxt(content)
+  const diagnostics: LintDiagnostic[] = []
+
+  const titleIndex = tokens.findIndex((token) => token.type === 'title')
+  if (titleIndex === -1) {
+    diagnostics.push({
+      line: 1,
+      column: 1,
+      severity: 'error',
+      rule: 'missing-h1',
+      message: 'Missing H1 title, e.g. "# Project name"',
+    })
+  }
+
+  const beforeTitle = tokens
+    .slice(0, titleIndex === -1 ? 0 : titleIndex)
+    .find((token) => token.type !== 'blank')
+  if (beforeTitle) {
+    diagnostics.push({
+      line: beforeTitle.line,
+      column: beforeTitle.column,
+      severity: 'error',
+      rule: 'content-before-h1',
+      message: 'Content before the H1 title',
+    })
+  }
+
+  const seenUrls = new Map<string, number>()
+  const relativeLinks: { token: LlmsToken; url: string }[] = []
+  let section: { token: LlmsToken; links: number } | null = null
+
+  const endSection = () => {
+    if (section && section.links === 0) {
+      diagnostics.push({
+        line: section.token.line,
+        column: section.token.column,
+        severity: 'warning',
+        rule: 'empty-section',
+        message: `Section "${section.token.text}" has no links`,
+      })
+    }
+  }
+
+  for (const token of tokens) {
+    if (token.type === 'section') {
+      endSection()
+      section = { token, links: 0 }
+      continue
+    }
+
+    if (token.type === 'text') {
+      const malformed = lintMalformedLink(token)
+      if (malformed) {
+        diagnostics.push(malformed)
+      }
+      continue
+    }
+
+    if (token.type !== 'link') {
+      continue
+    }
+
+    if (section) {
+      section.links++
+    }
+    const urlColumn = token.raw.indexOf(`](${token.url}`) + 3
+
+    if (token.text!.includes('[')) {
+      diagnostics.push({
+        line: token.line,
+        column: token.raw.indexOf('[') + 1,
+        severity: 'error',
+        rule: 'link-brackets',
+        message: 'Link text contains brackets',
+      })
+    }
+
+    const url = baseUrl ? resolveUrl(baseUrl, token.url!) : token.url!
+    const firstLine = seenUrls.get(url)
+    if (firstLine !== undefined) {
+      diagnostics.push({
+        line: token.line,
+        column: urlColumn,
+        severity: 'warning',
+        rule: 'duplicate-url',
+        message: `Duplicate URL, already listed on line ${firstLine}`,
+      })
+    } else {
+      seenUrls.set(url, token.line)
+    }
+
+    if (isRelativeUrl(token.url!)) {
+      relativeLinks.push({ token, url })
+    }
+  }
+  endSection()
+
+  // Relative links can only be checked once we know where the file lives
+  if (baseUrl) {
+    const unresolved = await asyncPool(LINK_CHECK_CONCURRENCY, relativeLinks, async (link) => {
+      try {
+        // Throws when the link could not be resolved against the base URL
+        new URL(link.url)
+        return !linkExists || (await linkExists(link.url)) ? null : link
+      } catch {
+        return link
+      }
+    })
+    for (const link of unresolved) {
+      if (link) {
+        diagnostics.push({
+          line: link.token.line,
+          column: link.token.raw.indexOf(`](${link.token.url}`) + 3,
+          severity: 'error',
+          rule: 'unresolved-link',
+          message: `Relative link does not resolve: ${link.url}`,
+        })
+      }
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+}
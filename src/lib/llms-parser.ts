@@ -1,4 +1,86 @@
-import type { LlmsDoc, LlmsEntry } from '../types.ts'
+import type { LlmsDoc, LlmsEntry, LlmsSection } from '../types.ts'
+
+/**
+ * Kind of an llms.txt line
+ * - title: H1 header
+ * - section: H2 header
+ * - quote: blockquote line
+ * - link: list item with a link, or a link on its own line
+ * - text: any other content
+ * - blank: empty line
+ */
+export type LlmsTokenType = 'title' | 'section' | 'quote' | 'link' | 'text' | 'blank'
+
+/**
+ * Line of an llms.txt file, shared by the parser and the linter
+ */
+export interface LlmsToken {
+  type: LlmsTokenType
+  /** 1-based line number */
+  line: number
+  /** 1-based column of the first non-blank character */
+  column: number
+  /** Line content, as is */
+  raw: string
+  /** Header, blockquote or link text */
+  text?: string
+  /** Link URL */
+  url?: string
+  /** Link description */
+  description?: string
+}
+
+/**
+ * Split llms.txt content into line tokens
+ */
+export function tokenizeLlmsTxt(content: string): LlmsToken[] {
+  return content.split('\n').map((raw, index) => {
+    const trimmed = raw.trim()
+    const token: LlmsToken = {
+      type: 'text',
+      line: index + 1,
+      column: raw.length - raw.trimStart().length + 1,
+      raw,
+    }
+
+    if (trimmed === '') {
+      token.type = 'blank'
+    } else if (trimmed.startsWith('# ')) {
+      token.type = 'title'
+      token.text = trimmed.slice(2).trim()
+    } else if (trimmed.startsWith('## ')) {
+      token.type = 'section'
+      token.text = trimmed.slice(3).trim()
+    } else if (trimmed.startsWith('>')) {
+      token.type = 'quote'
+      token.text = trimmed.slice(1).trim()
+    } else {
+      // List item with link: - [Text](url) or - [Text](url): description
+      // Plain link on its own line: [Text](url)
+      const linkMatch =
+        trimmed.match(/^[-*]\s*\[([^\]]+)\]\(([^)]+)\)(?::\s*(.+))?$/) ||
+        trimmed.match(/^\[([^\]]+)\]\(([^)]+)\)$/)
+      if (linkMatch) {
+        token.type = 'link'
+        token.text = linkMatch[1]
+        token.url = linkMatch[2]
+        token.description = linkMatch[3]?.trim()
+      }
+    }
+
+    return token
+  })
+}
+
+/**
+ * Join prose lines, collapsing runs of blank lines
+ */
+function joinProse(lines: string[]): string {
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
 
 /**
  * Parse llms.txt markdown content into structured format
@@ -8,84 +90,158 @@ import type { LlmsDoc, LlmsEntry } from '../types.ts'
  *
  * > Description (optional blockquote)
  *
+ * Details (optional prose)
+ *
  * ## Section Title
  *
  * - [Link Text](url): Description
  * - [Another Link](url)
+ *
+ * Entries of an "## Optional" section are marked as optional
  */
 export function parseLlmsTxt(content: string): LlmsDoc {
-  const lines = content.split('\n')
   let title = ''
   let description: string | undefined
   const entries: LlmsEntry[] = []
+  const sections: LlmsSection[] = []
+  const detailsLines: string[] = []
 
-  let currentSection = ''
+  let currentSection: LlmsSection | null = null
+  let sectionLines: string[] = []
   let inBlockquote = false
   const blockquoteLines: string[] = []
 
-  for (const line of lines) {
-    const trimmed = line.trim()
+  const endBlockquote = () => {
+    if (blockquoteLines.length > 0 && !description) {
+      description = blockquoteLines.join(' ')
+    }
+    inBlockquote = false
+    blockquoteLines.length = 0
+  }
+
+  const endSection = () => {
+    const prose = joinProse(sectionLines)
+    if (currentSection && prose) {
+      currentSection.content = prose
+    }
+  }
 
+  for (const token of tokenizeLlmsTxt(content)) {
     // H1: Document title
-    if (trimmed.startsWith('# ')) {
-      title = trimmed.slice(2).trim()
+    if (token.type === 'title') {
+      title = token.text!
       continue
     }
 
-    // Blockquote: Description (after title)
-    if (trimmed.startsWith('>')) {
+    // Blockquote before any section: Description
+    if (token.type === 'quote' && !description && !currentSection) {
       inBlockquote = true
-      blockquoteLines.push(trimmed.slice(1).trim())
+      blockquoteLines.push(token.text!)
       continue
     }
 
     // End of blockquote
-    if (inBlockquote && trimmed === '') {
-      if (blockquoteLines.length > 0 && !description) {
-        description = blockquoteLines.join(' ')
+    if (inBlockquote) {
+      endBlockquote()
+      if (token.type === 'blank') {
+        continue
       }
-      inBlockquote = false
-      blockquoteLines.length = 0
-      continue
     }
 
     // H2: Section header
-    if (trimmed.startsWith('## ')) {
-      currentSection = trimmed.slice(3).trim()
+    if (token.type === 'section') {
+      endSection()
+      currentSection = { title: token.text!, entries: [] }
+      sections.push(currentSection)
+      sectionLines = []
       continue
     }
 
-    // List item with link: - [Text](url) or - [Text](url): description
-    const linkMatch = trimmed.match(/^[-*]\s*\[([^\]]+)\]\(([^)]+)\)(?::\s*(.+))?$/)
-    if (linkMatch) {
-      entries.push({
-        title: currentSection ? `${currentSection} - ${linkMatch[1]}` : linkMatch[1],
-        url: linkMatch[2],
-        description: linkMatch[3]?.trim(),
-      })
+    if (token.type === 'link') {
+      const entry: LlmsEntry = {
+        title: token.text!,
+        url: token.url!,
+        description: token.description,
+      }
+      if (currentSection) {
+        entry.section = currentSection.title
+        if (currentSection.title.toLowerCase() === 'optional') {
+          entry.optional = true
+        }
+        currentSection.entries.push(entry)
+      }
+      entries.push(entry)
       continue
     }
 
-    // Plain link on its own line: [Text](url)
-    const plainLinkMatch = trimmed.match(/^\[([^\]]+)\]\(([^)]+)\)$/)
-    if (plainLinkMatch) {
-      entries.push({
-        title: currentSection ? `${currentSection} - ${plainLinkMatch[1]}` : plainLinkMatch[1],
-        url: plainLinkMatch[2],
-      })
+    // Anything else is prose of the current section, or details before the first one
+    if (currentSection) {
+      sectionLines.push(token.raw)
+    } else {
+      detailsLines.push(token.raw)
     }
   }
 
   // Handle blockquote at end of file
-  if (inBlockquote && blockquoteLines.length > 0 && !description) {
-    description = blockquoteLines.join(' ')
+  if (inBlockquote) {
+    endBlockquote()
   }
+  endSection()
 
   return {
     title,
     description,
+    details: joinProse(detailsLines) || undefined,
     entries,
+    sections,
+  }
+}
+
+/**
+ * Write a doc back as llms.txt
+ * Entries without a section are written before the first section
+ */
+export function serializeLlmsTxt(doc: LlmsDoc): string {
+  const blocks: string[] = [`# ${doc.title}`]
+  if (doc.description) {
+    blocks.push(`> ${doc.description}`)
+  }
+  if (doc.details) {
+    blocks.push(doc.details)
+  }
+
+  const formatEntries = (entries: LlmsEntry[]) =>
+    entries
+      .map((entry) => {
+        // Brackets would end the link text early
+        const title = entry.title.replace(/[[\]]/g, '')
+        return `- [${title}](${entry.url})${entry.description ? `: ${entry.description}` : ''}`
+      })
+      .join('\n')
+
+  const unsectioned = doc.entries.filter((entry) => !entry.section)
+  if (unsectioned.length > 0) {
+    blocks.push(formatEntries(unsectioned))
+  }
+
+  for (const section of doc.sections) {
+    blocks.push(`## ${section.title}`)
+    if (section.content) {
+      blocks.push(section.content)
+    }
+    if (section.entries.length > 0) {
+      blocks.push(formatEntries(section.entries))
+    }
   }
+
+  return blocks.join('\n\n') + '\n'
+}
+
+/**
+ * Get the title of an entry prefixed by its section, e.g. "Guide - Intro"
+ */
+export function getEntryLabel(entry: LlmsEntry): string {
+  return entry.section ? `${entry.section} - ${entry.title}` : entry.title
 }
 
 /**
@@ -131,3 +287,118 @@ export function filterEntriesByPath(entries: LlmsEntry[], pathPrefix: string): L
     return entryPath.startsWith(normalizedPrefix + '/') || entryPath === normalizedPrefix
   })
 }
+
+/**
+ * Find an entry by index or by a case-insensitive match on its title
+ */
+export function findEntry(entries: LlmsEntry[], query: string): LlmsEntry | undefined {
+  const index = parseInt(query, 10)
+  if (!isNaN(index)) {
+    return entries[index]
+  }
+  const lowerQuery = query.toLowerCase()
+  return entries.find((e) => getEntryLabel(e).toLowerCase().includes(lowerQuery))
+}
+
+/**
+ * Entries added, removed or kept between two versions of an llms.txt
+ */
+export interface LlmsEntriesDiff {
+  added: LlmsEntry[]
+  removed: LlmsEntry[]
+  kept: LlmsEntry[]
+}
+
+/**
+ * Compare two lists of entries by URL
+ */
+export function diffLlmsEntries(previous: LlmsEntry[], next: LlmsEntry[]): LlmsEntriesDiff {
+  const previousUrls = new Set(previous.map((entry) => entry.url))
+  const nextUrls = new Set(next.map((entry) => entry.url))
+
+  return {
+    added: next.filter((entry) => !previousUrls.has(entry.url)),
+    removed: previous.filter((entry) => !nextUrls.has(entry.url)),
+    kept: next.filter((entry) => previousUrls.has(entry.url)),
+  }
+}
+
+/**
+ * Document extracted from a full-content llms-full.txt
+ */
+export interface LlmsFullSection {
+  title: string
+  /** URL-safe identifier, unique within the file */
+  slug: string
+  /** Markdown content, starting with the section heading */
+  content: string
+}
+
+/**
+ * Turn a heading into a URL-safe slug
+ */
+export function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || 'section'
+  )
+}
+
+/**
+ * Split a full-content llms-full.txt on its top-level headings
+ * The top level is the highest heading level used more than once, so a single
+ * H1 title followed by H2 documents splits on the H2s
+ * Content before the first split heading is returned as the preamble
+ */
+export function splitLlmsFullTxt(content: string): {
+  preamble: string
+  sections: LlmsFullSection[]
+} {
+  const lines = content.split('\n')
+  const headings: { index: number; level: number; title: string }[] = []
+
+  let fence: string | null = null
+  for (const [index, line] of lines.entries()) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/)
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1]
+      } else if (fence === fenceMatch[1]) {
+        fence = null
+      }
+      continue
+    }
+    const headingMatch = !fence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (headingMatch) {
+      headings.push({ index, level: headingMatch[1].length, title: headingMatch[2] })
+    }
+  }
+
+  if (headings.length === 0) {
+    return { preamble: content, sections: [] }
+  }
+
+  const levels = [...new Set(headings.map((h) => h.level))].sort((a, b) => a - b)
+  const splitLevel =
+    levels.find((level) => headings.filter((h) => h.level === level).length > 1) ?? levels[0]
+  const splitHeadings = headings.filter((h) => h.level === splitLevel)
+
+  const usedSlugs = new Set<string>()
+  const sections = splitHeadings.map((heading, i) => {
+    const end = i + 1 < splitHeadings.length ? splitHeadings[i + 1].index : lines.length
+    let slug = slugify(heading.title)
+    for (let n = 2; usedSlugs.has(slug); n++) {
+      slug = `${slugify(heading.title)}-${n}`
+    }
+    usedSlugs.add(slug)
+    return {
+      title: heading.title,
+      slug,
+      content: lines.slice(heading.index, end).join('\n').trim() + '\n',
+    }
+  })
+
+  return { preamble: lines.slice(0, splitHeadings[0].index).join('\n').trim(), sections }
+}
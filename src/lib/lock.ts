@@ -0,0 +1,156 @@
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { EruditaLock, EruditaLockEntry } from '../types.ts'
+import { getCachedDocFile, getCachedLlmsTxt, getCachedMeta, listCachedDocFiles } from './cache.ts'
+
+const PROJECT_LOCK_FILE = 'erudita.lock'
+const LOCKFILE_VERSION = 1
+
+/**
+ * Differences between the locked and the cached docs of a package
+ */
+export interface LockDrift {
+  /** Resolved llms.txt URL, when it changed */
+  resolved?: { from?: string; to?: string }
+  /** Whether llms.txt content changed */
+  llmsTxt: boolean
+  /** Doc files not in the lock */
+  added: string[]
+  /** Locked doc files missing from the cache */
+  removed: string[]
+  /** Doc files whose content changed */
+  changed: string[]
+}
+
+/**
+ * Hash content in the integrity format used by package managers
+ */
+export function hashContent(content: string): string {
+  return 'sha256-' + createHash('sha256').update(content).digest('base64')
+}
+
+/**
+ * Read erudita.lock from project directory
+ */
+export function readProjectLock(cwd: string): EruditaLock | null {
+  const lockPath = join(cwd, PROJECT_LOCK_FILE)
+  if (!existsSync(lockPath)) {
+    return null
+  }
+  try {
+    return JSON.parse(readFileSync(lockPath, 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write erudita.lock to project directory, with sorted keys for stable diffs
+ */
+export function writeProjectLock(cwd: string, lock: EruditaLock): void {
+  const packages: Record<string, EruditaLockEntry> = {}
+  for (const key of Object.keys(lock.packages).sort()) {
+    packages[key] = lock.packages[key]
+  }
+  const lockPath = join(cwd, PROJECT_LOCK_FILE)
+  writeFileSync(
+    lockPath,
+    JSON.stringify({ lockfileVersion: LOCKFILE_VERSION, packages }, null, 2) + '\n',
+  )
+}
+
+/**
+ * Get or create project lock
+ */
+export function getOrCreateProjectLock(cwd: string): EruditaLock {
+  const existing = readProjectLock(cwd)
+  if (existing) {
+    return existing
+  }
+  return { lockfileVersion: LOCKFILE_VERSION, packages: {} }
+}
+
+/**
+ * Build a lock entry from the cached docs of a package
+ */
+export function createLockEntry(packageKey: string): EruditaLockEntry | null {
+  const meta = getCachedMeta(packageKey)
+  const llmsTxt = getCachedLlmsTxt(packageKey)
+  if (!meta || llmsTxt === null) {
+    return null
+  }
+
+  const docs: Record<string, string> = {}
+  for (const filename of listCachedDocFiles(packageKey)) {
+    const content = getCachedDocFile(packageKey, filename)
+    if (content !== null) {
+      docs[filename] = hashContent(content)
+    }
+  }
+
+  const entry: EruditaLockEntry = {
+    // Git checkouts live in the cache directory, lock the commit instead
+    resolved: meta.git ? `${meta.git.git}#${meta.git.commit}` : meta.llmsTxtUrl,
+    fetchedAt: meta.fetchedAt,
+    llmsTxt: hashContent(llmsTxt),
+    docs,
+  }
+  if (meta.pathPrefix) {
+    entry.pathPrefix = meta.pathPrefix
+  }
+  return entry
+}
+
+/**
+ * Compare a locked entry with the current one
+ * Returns null when the docs match the lock
+ */
+export function diffLockEntry(
+  locked: EruditaLockEntry,
+  current: EruditaLockEntry,
+): LockDrift | null {
+  const drift: LockDrift = {
+    llmsTxt: locked.llmsTxt !== current.llmsTxt,
+    added: Object.keys(current.docs).filter((file) => !(file in locked.docs)),
+    removed: Object.keys(locked.docs).filter((file) => !(file in current.docs)),
+    changed: Object.keys(current.docs).filter(
+      (file) => file in locked.docs && locked.docs[file] !== current.docs[file],
+    ),
+  }
+  // Older caches don't know their llms.txt URL, don't report that as drift
+  if (locked.resolved && current.resolved && locked.resolved !== current.resolved) {
+    drift.resolved = { from: locked.resolved, to: current.resolved }
+  }
+
+  const hasDrift =
+    drift.resolved ||
+    drift.llmsTxt ||
+    drift.added.length > 0 ||
+    drift.removed.length > 0 ||
+    drift.changed.length > 0
+  return hasDrift ? drift : null
+}
+
+/**
+ * Summarize a drift in one line
+ */
+export function formatLockDrift(drift: LockDrift): string {
+  const parts: string[] = []
+  if (drift.resolved) {
+    parts.push(`llms.txt moved to ${drift.resolved.to}`)
+  }
+  if (drift.llmsTxt) {
+    parts.push('llms.txt changed')
+  }
+  if (drift.changed.length > 0) {
+    parts.push(`${drift.changed.length} changed`)
+  }
+  if (drift.added.length > 0) {
+    parts.push(`${drift.added.length} added`)
+  }
+  if (drift.removed.length > 0) {
+    parts.push(`${drift.removed.length} removed`)
+  }
+  return parts.join(', ')
+}
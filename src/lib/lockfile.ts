@@ -0,0 +1,440 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Lockfiles that can be read, in order of precedence
+ */
+export const LOCKFILES = ['pnpm-lock.yaml', 'package-lock.json', 'yarn.lock', 'bun.lock'] as const
+
+export type LockfileName = (typeof LOCKFILES)[number]
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies']
+
+/**
+ * Keep the semver part of a lockfile version
+ * "3.4.0(typescript@5.3.3)" -> "3.4.0", "18.0.0_abc" -> "18.0.0"
+ * Returns null for non-registry versions like "link:../pkg"
+ */
+export function cleanLockVersion(version: string): string | null {
+  const match = version.trim().match(/^v?(\d+\.\d+\.\d+[^(_\s]*)/)
+  return match ? match[1] : null
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  if (
+    (trimmed.startsWith("'") && trimmed.endsWith("'")) ||
+    (trimmed.startsWith('"') && trimmed.endsWith('"'))
+  ) {
+    return trimmed.slice(1, -1)
+  }
+  return trimmed
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+/**
+ * Read the installed versions of an importer from pnpm-lock.yaml
+ * Supports lockfile v5 (inline versions), v6 and v9 (specifier/version objects)
+ */
+export function parsePnpmLock(content: string, importer = '.'): Map<string, string> {
+  const lines = content.split('\n')
+  const versions = new Map<string, string>()
+
+  // Locate the importer block if the lockfile has one, otherwise read the top level
+  let start = 0
+  let end = lines.length
+  let baseIndent = 0
+  const importersIndex = lines.findIndex((line) => line === 'importers:')
+  if (importersIndex !== -1) {
+    const importerIndex = lines.findIndex(
+      (line, i) =>
+        i > importersIndex &&
+        indentOf(line) === 2 &&
+        unquote(line.trim().slice(0, -1)) === importer,
+    )
+    if (importerIndex === -1) {
+      return versions
+    }
+    start = importerIndex + 1
+    end = lines.findIndex((line, i) => i > importerIndex && line.trim() && indentOf(line) <= 2)
+    if (end === -1) {
+      end = lines.length
+    }
+    baseIndent = 4
+  }
+
+  let inDeps = false
+  let currentName: string | null = null
+
+  for (let i = start; i < end; i++) {
+    const line = lines[i]
+    if (!line.trim()) {
+      continue
+    }
+    const indent = indentOf(line)
+    const trimmed = line.trim()
+
+    if (indent === baseIndent) {
+      inDeps = DEPENDENCY_FIELDS.includes(trimmed.slice(0, -1))
+      currentName = null
+      continue
+    }
+    if (!inDeps) {
+      continue
+    }
+
+    if (indent === baseIndent + 2) {
+      const match = trimmed.match(/^('[^']+'|"[^"]+"|[^:\s]+):\s*(.*)$/)
+      currentName = match ? unquote(match[1]) : null
+      // v5: "vue: 3.4.0"
+      const version = match?.[2] && cleanLockVersion(unquote(match[2]))
+      if (currentName && version) {
+        versions.set(currentName, version)
+      }
+      continue
+    }
+
+    // v6+: nested "version: 3.4.0"
+    if (indent === baseIndent + 4 && currentName && trimmed.startsWith('version:')) {
+      const version = cleanLockVersion(unquote(trimmed.slice('version:'.length)))
+      if (version) {
+        versions.set(currentName, version)
+      }
+    }
+  }
+
+  return versions
+}
+
+/**
+ * Read the installed versions from package-lock.json (v1, v2 and v3)
+ */
+export function parsePackageLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>()
+  const lock = JSON.parse(content)
+
+  if (lock.packages) {
+    for (const [path, info] of Object.entries<{ version?: string; link?: boolean }>(
+      lock.packages,
+    )) {
+      // Only direct installs, not nested node_modules
+      const match = path.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/)
+      const version = match && !info.link && info.version && cleanLockVersion(info.version)
+      if (version) {
+        versions.set(match[1], version)
+      }
+    }
+    return versions
+  }
+
+  for (const [name, info] of Object.entries<{ version?: string }>(lock.dependencies || {})) {
+    const version = info.version && cleanLockVersion(info.version)
+    if (version) {
+      versions.set(name, version)
+    }
+  }
+  return versions
+}
+
+/**
+ * Split a yarn descriptor into name and range
+ * "@vue/shared@npm:^3.4.0" -> { name: "@vue/shared", range: "^3.4.0" }
+ */
+function parseYarnDescriptor(descriptor: string): { name: string; range: string } {
+  const atIndex = descriptor.indexOf('@', 1)
+  if (atIndex === -1) {
+    return { name: descriptor, range: '' }
+  }
+  const range = descriptor.slice(atIndex + 1)
+  return {
+    name: descriptor.slice(0, atIndex),
+    range: range.startsWith('npm:') ? range.slice(4) : range,
+  }
+}
+
+/**
+ * Read the installed versions from yarn.lock (classic and berry)
+ * `ranges` maps dependency names to their package.json range and picks the matching entry
+ * when several versions of a package are locked
+ */
+export function parseYarnLock(
+  content: string,
+  ranges: Record<string, string>,
+): Map<string, string> {
+  const byDescriptor = new Map<string, string>()
+  const byName = new Map<string, Set<string>>()
+
+  let descriptors: { name: string; range: string }[] = []
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      continue
+    }
+
+    if (indentOf(line) === 0 && line.endsWith(':')) {
+      descriptors = line
+        .slice(0, -1)
+        .split(',')
+        .map((d) => parseYarnDescriptor(unquote(d)))
+      continue
+    }
+
+    const versionMatch = line.match(/^\s+version:?\s+(.+)$/)
+    if (versionMatch && descriptors.length > 0) {
+      const version = cleanLockVersion(unquote(versionMatch[1]))
+      if (version) {
+        for (const { name, range } of descriptors) {
+          byDescriptor.set(`${name}@${range}`, version)
+          if (!byName.has(name)) {
+            byName.set(name, new Set())
+          }
+          byName.get(name)!.add(version)
+        }
+      }
+      descriptors = []
+    }
+  }
+
+  const versions = new Map<string, string>()
+  for (const [name, candidates] of byName) {
+    const range = ranges[name]
+    const version = range && byDescriptor.get(`${name}@${range.replace(/^npm:/, '')}`)
+    if (version) {
+      versions.set(name, version)
+    } else if (candidates.size === 1) {
+      versions.set(name, [...candidates][0])
+    }
+  }
+  return versions
+}
+
+/**
+ * Read the installed versions from the text bun.lock (JSONC with trailing commas)
+ */
+export function parseBunLock(content: string): Map<string, string> {
+  const versions = new Map<string, string>()
+  const lock = JSON.parse(content.replace(/,(\s*[}\]])/g, '$1'))
+
+  for (const [name, info] of Object.entries<unknown[]>(lock.packages || {})) {
+    // Nested installs are keyed "parent/name"
+    if (name.includes('/') && !(name.startsWith('@') && name.split('/').length === 2)) {
+      continue
+    }
+    const resolution = typeof info[0] === 'string' ? info[0] : ''
+    const version = cleanLockVersion(resolution.slice(resolution.lastIndexOf('@') + 1))
+    if (version) {
+      versions.set(name, version)
+    }
+  }
+  return versions
+}
+
+/**
+ * Installed packages, keyed by "name@version", with the name and version of their
+ * dependencies
+ */
+export type DependencyGraph = Map<string, Map<string, string>>
+
+/**
+ * Split a pnpm package key into name and version
+ * "/@vue/shared@3.4.5", "vue@3.4.5(typescript@5.3.3)" (v6, v9) or "/vue/3.4.5" (v5)
+ */
+function parsePnpmPackageKey(key: string): { name: string; version: string } | null {
+  const path = unquote(key).replace(/^\//, '').replace(/\(.*$/, '')
+  const atIndex = path.lastIndexOf('@')
+  const slashIndex = path.lastIndexOf('/')
+  const [name, rawVersion] =
+    atIndex > 0 && atIndex > slashIndex
+      ? [path.slice(0, atIndex), path.slice(atIndex + 1)]
+      : [path.slice(0, slashIndex), path.slice(slashIndex + 1)]
+  const version = cleanLockVersion(rawVersion)
+  return name && version ? { name, version } : null
+}
+
+/**
+ * Read the dependencies of every package of pnpm-lock.yaml, from the
+ * packages (v5, v6) or snapshots (v9) section
+ */
+export function parsePnpmLockGraph(content: string): DependencyGraph {
+  const graph: DependencyGraph = new Map()
+  let inSection = false
+  let current: Map<string, string> | null = null
+  let inDeps = false
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    const indent = indentOf(line)
+    const trimmed = line.trim()
+
+    if (indent === 0) {
+      inSection = trimmed === 'packages:' || trimmed === 'snapshots:'
+      current = null
+      continue
+    }
+    if (!inSection) {
+      continue
+    }
+
+    if (indent === 2) {
+      const pkg = trimmed.endsWith(':') ? parsePnpmPackageKey(trimmed.slice(0, -1)) : null
+      const key = pkg && `${pkg.name}@${pkg.version}`
+      current = key ? (graph.get(key) ?? new Map()) : null
+      if (key && current) {
+        graph.set(key, current)
+      }
+      inDeps = false
+      continue
+    }
+    if (!current) {
+      continue
+    }
+
+    if (indent === 4) {
+      inDeps = trimmed === 'dependencies:' || trimmed === 'optionalDependencies:'
+      continue
+    }
+
+    const match = inDeps && indent === 6 && trimmed.match(/^('[^']+'|"[^"]+"|[^:\s]+):\s*(.+)$/)
+    const version = match && cleanLockVersion(unquote(match[2]))
+    if (match && version) {
+      current.set(unquote(match[1]), version)
+    }
+  }
+
+  return graph
+}
+
+interface PackageLockEntry {
+  version?: string
+  dependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+}
+
+/**
+ * Find the installed version of a dependency of a package-lock.json path like Node does:
+ * node_modules/a/node_modules/b, then node_modules/b
+ */
+function findPackageLockVersion(
+  packages: Record<string, PackageLockEntry>,
+  from: string,
+  name: string,
+): string | undefined {
+  for (let base = from; ; base = base.slice(0, base.lastIndexOf('/node_modules/'))) {
+    const version = packages[`${base}/node_modules/${name}`]?.version
+    if (version) {
+      return version
+    }
+    if (!base.includes('/node_modules/')) {
+      return packages[`node_modules/${name}`]?.version
+    }
+  }
+}
+
+/**
+ * Read the dependencies of every package of package-lock.json (v2 and v3)
+ */
+export function parsePackageLockGraph(content: string): DependencyGraph {
+  const graph: DependencyGraph = new Map()
+  const packages: Record<string, PackageLockEntry> = JSON.parse(content).packages || {}
+
+  for (const [path, info] of Object.entries(packages)) {
+    const nameIndex = path.lastIndexOf('node_modules/')
+    if (nameIndex === -1 || !info.version) {
+      continue
+    }
+    const dependencies = new Map<string, string>()
+    for (const name of Object.keys({ ...info.dependencies, ...info.optionalDependencies })) {
+      const version = findPackageLockVersion(packages, path, name)
+      if (version) {
+        dependencies.set(name, version)
+      }
+    }
+    graph.set(`${path.slice(nameIndex + 'node_modules/'.length)}@${info.version}`, dependencies)
+  }
+
+  return graph
+}
+
+/**
+ * Read the dependency graph of the project's lockfile, only pnpm-lock.yaml and
+ * package-lock.json are supported
+ */
+export function readLockfileGraph(cwd: string): DependencyGraph {
+  const lockfile = findLockfile(cwd)
+  try {
+    switch (lockfile) {
+      case 'pnpm-lock.yaml':
+        return parsePnpmLockGraph(readFileSync(join(cwd, lockfile), 'utf-8'))
+      case 'package-lock.json':
+        return parsePackageLockGraph(readFileSync(join(cwd, lockfile), 'utf-8'))
+      default:
+        return new Map()
+    }
+  } catch {
+    return new Map()
+  }
+}
+
+/**
+ * Find the lockfile used by a project
+ */
+export function findLockfile(cwd: string): LockfileName | null {
+  return LOCKFILES.find((name) => existsSync(join(cwd, name))) ?? null
+}
+
+function readDependencyRanges(cwd: string, dirs: string[]): Record<string, string> {
+  const ranges: Record<string, string> = {}
+  for (const dir of [...dirs].reverse()) {
+    const pkgPath = join(cwd, dir, 'package.json')
+    if (!existsSync(pkgPath)) {
+      continue
+    }
+    try {
+      const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'))
+      Object.assign(ranges, ...DEPENDENCY_FIELDS.map((field) => pkg[field] || {}))
+    } catch {
+      // Invalid package.json, its dependencies are matched by name only
+    }
+  }
+  return ranges
+}
+
+/**
+ * Read the versions of installed dependencies from the project's lockfile
+ * `dirs` are the workspace packages to read, relative to cwd, the first ones win
+ * Returns an empty map when there is no readable lockfile
+ */
+export function readLockfileVersions(cwd: string, dirs: string[] = ['.']): Map<string, string> {
+  const lockfile = findLockfile(cwd)
+  if (!lockfile) {
+    return new Map()
+  }
+
+  try {
+    const content = readFileSync(join(cwd, lockfile), 'utf-8')
+    switch (lockfile) {
+      case 'pnpm-lock.yaml': {
+        // Each workspace package is an importer
+        const versions = new Map<string, string>()
+        for (const dir of [...dirs].reverse()) {
+          for (const [name, version] of parsePnpmLock(content, dir)) {
+            versions.set(name, version)
+          }
+        }
+        return versions
+      }
+      case 'package-lock.json':
+        return parsePackageLock(content)
+      case 'yarn.lock':
+        return parseYarnLock(content, readDependencyRanges(cwd, dirs))
+      case 'bun.lock':
+        return parseBunLock(content)
+    }
+  } catch {
+    return new Map()
+  }
+}
@@ -0,0 +1,274 @@
+import { createInterface } from 'node:readline'
+import pkg from '../../package.json' with { type: 'json' }
+import { getCachedDoc, getCachedEntryContent, getCachedMeta, listCached } from './cache.ts'
+import { findEntry } from './llms-parser.ts'
+import { searchDocs } from './search.ts'
+
+/**
+ * Latest Model Context Protocol revision supported by the server
+ */
+export const MCP_PROTOCOL_VERSION = '2025-06-18'
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700
+const INVALID_REQUEST = -32600
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const INTERNAL_ERROR = -32603
+
+type JsonRpcId = string | number | null
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: JsonRpcId
+  method?: string
+  params?: Record<string, unknown>
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0'
+  id: JsonRpcId
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+interface McpToolResult {
+  content: { type: 'text'; text: string }[]
+  isError?: boolean
+}
+
+interface McpTool {
+  name: string
+  description: string
+  inputSchema: {
+    type: 'object'
+    properties: Record<string, { type: string; description: string; items?: { type: string } }>
+    required?: string[]
+  }
+  handler: (args: Record<string, unknown>) => string
+}
+
+/**
+ * Error reported to the client as a failed tool call instead of a protocol error
+ */
+class ToolError extends Error {}
+
+/**
+ * Error reported to the client as a JSON-RPC error
+ */
+class RpcError extends Error {
+  readonly code: number
+
+  constructor(code: number, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name]
+  if (typeof value !== 'string' || !value) {
+    throw new ToolError(`Missing required argument "${name}"`)
+  }
+  return value
+}
+
+function requireCachedDoc(packageName: string) {
+  const doc = getCachedDoc(packageName)
+  if (!doc) {
+    throw new ToolError(`Package "${packageName}" is not cached`)
+  }
+  return doc
+}
+
+const tools: McpTool[] = [
+  {
+    name: 'list_packages',
+    description: 'List all packages with cached documentation',
+    inputSchema: { type: 'object', properties: {} },
+    handler: () => {
+      const packages = listCached().map((meta) => ({
+        name: meta.name,
+        sourceUrl: meta.sourceUrl,
+        fetchedAt: new Date(meta.fetchedAt).toISOString(),
+        entries: getCachedDoc(meta.name)?.entries.length ?? 0,
+      }))
+      return JSON.stringify(packages, null, 2)
+    },
+  },
+  {
+    name: 'list_entries',
+    description: 'List the documentation entries of a cached package',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package: { type: 'string', description: 'Package key, e.g. "vue" or "vue@3.4.0"' },
+      },
+      required: ['package'],
+    },
+    handler: (args) => {
+      const doc = requireCachedDoc(requireString(args, 'package'))
+      const entries = doc.entries.map((entry, index) => ({ index, ...entry }))
+      return JSON.stringify({ title: doc.title, description: doc.description, entries }, null, 2)
+    },
+  },
+  {
+    name: 'read_entry',
+    description: 'Read the content of a documentation entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package: { type: 'string', description: 'Package key, e.g. "vue" or "vue@3.4.0"' },
+        entry: { type: 'string', description: 'Entry index or part of its title' },
+      },
+      required: ['package', 'entry'],
+    },
+    handler: (args) => {
+      const packageName = requireString(args, 'package')
+      const query = args.entry
+      if (typeof query !== 'string' && typeof query !== 'number') {
+        throw new ToolError('Missing required argument "entry"')
+      }
+      const doc = requireCachedDoc(packageName)
+      const entry = findEntry(doc.entries, String(query))
+      if (!entry) {
+        throw new ToolError(`Entry "${query}" not found in "${packageName}"`)
+      }
+      const content = getCachedEntryContent(packageName, entry)
+      if (content === null) {
+        throw new ToolError(`Content of "${entry.title}" is not cached`)
+      }
+      return content
+    },
+  },
+  {
+    name: 'search_docs',
+    description: 'Search cached documentation and return the best matching sections',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+        packages: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Package keys to search (default: all cached packages)',
+        },
+        limit: { type: 'number', description: 'Maximum number of results (default: 10)' },
+      },
+      required: ['query'],
+    },
+    handler: (args) => {
+      const query = requireString(args, 'query')
+      const packages = Array.isArray(args.packages)
+        ? args.packages.filter((p): p is string => typeof p === 'string')
+        : undefined
+      const missing = packages?.find((p) => !getCachedMeta(p))
+      if (missing) {
+        throw new ToolError(`Package "${missing}" is not cached`)
+      }
+      const limit = typeof args.limit === 'number' ? args.limit : undefined
+      return JSON.stringify(searchDocs(query, { packages, limit }), null, 2)
+    },
+  },
+]
+
+function callTool(params: Record<string, unknown>): McpToolResult {
+  const tool = tools.find((t) => t.name === params.name)
+  if (!tool) {
+    throw new RpcError(INVALID_PARAMS, `Unknown tool "${params.name}"`)
+  }
+
+  const args = (params.arguments as Record<string, unknown> | undefined) || {}
+  try {
+    return { content: [{ type: 'text', text: tool.handler(args) }] }
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return { content: [{ type: 'text', text: error.message }], isError: true }
+    }
+    throw error
+  }
+}
+
+/**
+ * Handle a single JSON-RPC message
+ * Returns the response to send, or null for notifications
+ */
+export function handleMcpMessage(message: JsonRpcMessage): JsonRpcResponse | null {
+  const id = message.id ?? null
+  const isNotification = message.id === undefined
+
+  try {
+    if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      throw new RpcError(INVALID_REQUEST, 'Invalid request')
+    }
+
+    let result: unknown
+    switch (message.method) {
+      case 'initialize':
+        result = {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'erudita', version: pkg.version },
+        }
+        break
+      case 'ping':
+        result = {}
+        break
+      case 'tools/list':
+        result = {
+          tools: tools.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        }
+        break
+      case 'tools/call':
+        result = callTool(message.params || {})
+        break
+      default:
+        // Notifications like notifications/initialized need no answer
+        if (isNotification) {
+          return null
+        }
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${message.method}`)
+    }
+
+    return isNotification ? null : { jsonrpc: '2.0', id, result }
+  } catch (error) {
+    if (isNotification) {
+      return null
+    }
+    const code = error instanceof RpcError ? error.code : INTERNAL_ERROR
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    return { jsonrpc: '2.0', id, error: { code, message: errorMessage } }
+  }
+}
+
+/**
+ * Serve the MCP protocol over newline-delimited JSON-RPC streams (stdio transport)
+ * Resolves when the input stream ends
+ */
+export async function serveMcp(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+): Promise<void> {
+  const lines = createInterface({ input, crlfDelay: Infinity })
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue
+    }
+
+    let response: JsonRpcResponse | null
+    try {
+      response = handleMcpMessage(JSON.parse(line))
+    } catch {
+      response = { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } }
+    }
+
+    if (response) {
+      output.write(JSON.stringify(response) + '\n')
+    }
+  }
+}
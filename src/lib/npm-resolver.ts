@@ -1,17 +1,21 @@
 import type { NpmPackageMeta } from '../types.ts'
-
-const NPM_REGISTRY = 'https://registry.npmjs.org'
+import { getPackageRegistry, getRegistryAuthHeaders, readNpmConfig } from './npmrc.ts'
+import { resolveSourceOverride } from './overrides.ts'
+import { transportFetch } from './transport.ts'
 
 /**
- * Fetch package metadata from npm registry
+ * Fetch package metadata from the npm registry
+ * The registry and its credentials come from the user and project .npmrc
  */
 export async function fetchNpmMeta(packageName: string): Promise<NpmPackageMeta | null> {
-  const url = `${NPM_REGISTRY}/${encodeURIComponent(packageName)}`
-
   try {
-    const response = await fetch(url, {
+    const npmConfig = readNpmConfig()
+    const registry = getPackageRegistry(packageName, npmConfig)
+    const url = `${registry}${encodeURIComponent(packageName)}`
+    const response = await transportFetch(url, {
       headers: {
         Accept: 'application/json',
+        ...getRegistryAuthHeaders(registry, npmConfig),
       },
     })
 
@@ -109,8 +113,14 @@ function repoUrlToWebsite(repoUrl: string): string | null {
 
 /**
  * Resolve a package name to its website URL
+ * Source overrides of the user and team take precedence over npm
  */
 export async function resolvePackageUrl(packageName: string): Promise<string | null> {
+  const override = resolveSourceOverride(packageName)
+  if (override) {
+    return override
+  }
+
   const meta = await fetchNpmMeta(packageName)
   if (!meta) {
     return null
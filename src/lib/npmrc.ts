@@ -0,0 +1,113 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+
+/**
+ * Default npm registry, when no .npmrc sets one
+ */
+export const NPM_REGISTRY = 'https://registry.npmjs.org/'
+
+/**
+ * Settings of .npmrc files, e.g. { "@corp:registry": "https://npm.corp.com/" }
+ */
+export type NpmrcConfig = Record<string, string>
+
+/**
+ * Parse the content of an .npmrc file
+ * ${NAME} references are replaced with environment variables, settings using
+ * unset variables are dropped so no partial token is sent
+ */
+export function parseNpmrc(content: string, env: NodeJS.ProcessEnv = process.env): NpmrcConfig {
+  const config: NpmrcConfig = {}
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith(';') || trimmed.startsWith('[')) {
+      continue
+    }
+
+    const separator = trimmed.indexOf('=')
+    if (separator === -1) {
+      continue
+    }
+    const key = trimmed.slice(0, separator).trim()
+    let value = trimmed.slice(separator + 1).trim()
+    if (/^(["']).*\1$/.test(value)) {
+      value = value.slice(1, -1)
+    }
+
+    let missing = false
+    value = value.replace(/\$\{(\w+)\}/g, (_, name) => {
+      if (env[name] === undefined) {
+        missing = true
+      }
+      return env[name] || ''
+    })
+    if (key && !missing) {
+      config[key] = value
+    }
+  }
+
+  return config
+}
+
+function readNpmrcFile(path: string): NpmrcConfig {
+  if (!existsSync(path)) {
+    return {}
+  }
+  try {
+    return parseNpmrc(readFileSync(path, 'utf-8'))
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Read the user .npmrc (or NPM_CONFIG_USERCONFIG) and the project .npmrc
+ * Project settings win, like in npm
+ */
+export function readNpmConfig(cwd: string = process.cwd()): NpmrcConfig {
+  const userConfig =
+    process.env.NPM_CONFIG_USERCONFIG ||
+    process.env.npm_config_userconfig ||
+    join(homedir(), '.npmrc')
+  return { ...readNpmrcFile(userConfig), ...readNpmrcFile(join(cwd, '.npmrc')) }
+}
+
+/**
+ * Get the registry of a package: its scope registry, then the registry setting
+ * Always ends with a slash
+ */
+export function getPackageRegistry(packageName: string, config: NpmrcConfig): string {
+  const scope = packageName.startsWith('@') ? packageName.split('/')[0] : undefined
+  const registry = (scope && config[`${scope}:registry`]) || config.registry || NPM_REGISTRY
+  return registry.endsWith('/') ? registry : `${registry}/`
+}
+
+/**
+ * Get the auth headers for a registry from settings like
+ * //npm.corp.com/:_authToken=... or //npm.corp.com/:_auth=...
+ * The setting with the longest matching path wins
+ */
+export function getRegistryAuthHeaders(
+  registry: string,
+  config: NpmrcConfig,
+): Record<string, string> {
+  // npm keys credentials by the registry URL without its protocol
+  const registryPath = registry.replace(/^https?:/, '')
+  const prefix = Object.keys(config)
+    .filter((key) => /:_auth(Token)?$/.test(key) && key.startsWith('//'))
+    .map((key) => key.slice(0, key.lastIndexOf(':')))
+    .filter((path) => registryPath.startsWith(path.endsWith('/') ? path : `${path}/`))
+    .sort((a, b) => b.length - a.length)[0]
+
+  if (prefix === undefined) {
+    return {}
+  }
+  const token = config[`${prefix}:_authToken`]
+  if (token) {
+    return { Authorization: `Bearer ${token}` }
+  }
+  const auth = config[`${prefix}:_auth`]
+  return auth ? { Authorization: `Basic ${auth}` } : {}
+}
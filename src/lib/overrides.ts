@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { getConfigDir } from './config.ts'
+import { isLocalSource, resolveSource } from './url-utils.ts'
+
+/**
+ * Source overrides file in the config directory
+ */
+export const SOURCES_FILE = 'sources.json'
+/**
+ * Environment variable pointing to a team overrides file, shared by everyone on a project
+ */
+export const TEAM_SOURCES_ENV = 'ERUDITA_TEAM_SOURCES'
+
+/**
+ * Package name or pattern (e.g. "@vue/*") → llms.txt URL
+ * URLs can use {name} for the package name
+ */
+export type SourceOverrides = Record<string, string>
+
+/**
+ * Read an overrides file
+ */
+function readSourceOverrides(path: string): SourceOverrides {
+  if (!existsSync(path)) {
+    return {}
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch {
+    return {}
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {}
+  }
+
+  const overrides: SourceOverrides = {}
+  for (const [pattern, url] of Object.entries(data)) {
+    if (typeof url === 'string' && url.trim()) {
+      overrides[pattern] = url.trim()
+    }
+  }
+  return overrides
+}
+
+/**
+ * Get the overrides files to read, by precedence: the user's file, then the team file
+ */
+export function getSourceOverrideFiles(): string[] {
+  const files = [join(getConfigDir(), SOURCES_FILE)]
+  const teamFile = process.env[TEAM_SOURCES_ENV]
+  if (teamFile) {
+    files.push(teamFile)
+  }
+  return files
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Find the URL of a package in overrides
+ * Exact names win over patterns, and longer patterns over shorter ones
+ */
+export function matchSourceOverride(
+  packageName: string,
+  overrides: SourceOverrides,
+): string | null {
+  const key = Object.hasOwn(overrides, packageName)
+    ? packageName
+    : Object.keys(overrides)
+        .filter((pattern) => pattern.includes('*') && patternToRegExp(pattern).test(packageName))
+        .sort((a, b) => b.length - a.length)[0]
+  return key === undefined ? null : overrides[key].replaceAll('{name}', packageName)
+}
+
+/**
+ * Get the overridden URL of a package from the user and team overrides files
+ * Local paths are resolved against the directory of their file, once {name} is replaced
+ */
+export function resolveSourceOverride(packageName: string): string | null {
+  for (const file of getSourceOverrideFiles()) {
+    const url = matchSourceOverride(packageName, readSourceOverrides(file))
+    if (url) {
+      return isLocalSource(url) ? resolveSource(url, dirname(file)) : url
+    }
+  }
+  return null
+}
@@ -13,10 +13,13 @@ import {
 import type { Stats } from 'node:fs'
 import { join } from 'node:path'
 import type { EruditaProject, ParsedPackageKey, ProjectLinkMode } from '../types.ts'
-import { getPackageCacheDir } from './cache.ts'
+import { ensureCacheDir, getCacheDir, getPackageCacheDir } from './cache.ts'
+import { loadConfig } from './config.ts'
 
 const PROJECT_CONFIG_FILE = 'erudita.json'
 const PROJECT_LINK_DIR = '.erudita'
+// Projects that installed docs, stored in the cache dir to relink them after a rollback
+const PROJECTS_REGISTRY_FILE = 'projects.json'
 
 /**
  * Parse package key into name and optional version
@@ -210,6 +213,51 @@ function isEruditaPackageEntry(linkPath: string, stats: Stats): boolean {
   )
 }
 
+/**
+ * Remember a project that installs docs from the cache
+ */
+export function registerProject(cwd: string): void {
+  const projects = listRegisteredProjects()
+  if (projects.includes(cwd)) {
+    return
+  }
+  projects.push(cwd)
+  writeFileSync(join(ensureCacheDir(), PROJECTS_REGISTRY_FILE), JSON.stringify(projects, null, 2))
+}
+
+/**
+ * List registered projects that still have an erudita.json
+ */
+export function listRegisteredProjects(): string[] {
+  const registryPath = join(getCacheDir(), PROJECTS_REGISTRY_FILE)
+  if (!existsSync(registryPath)) {
+    return []
+  }
+  try {
+    const projects: string[] = JSON.parse(readFileSync(registryPath, 'utf-8'))
+    return projects.filter((cwd) => existsSync(join(cwd, PROJECT_CONFIG_FILE)))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Recreate the .erudita entry of a package in every registered project using it
+ * Returns the relinked project directories
+ */
+export function relinkPackage(packageKey: string): string[] {
+  const relinked: string[] = []
+  for (const cwd of listRegisteredProjects()) {
+    const config = readProjectConfig(cwd)
+    if (!config?.packages[packageKey]) {
+      continue
+    }
+    createPackageLink(cwd, packageKey, config.linkMode || loadConfig().linkMode)
+    relinked.push(cwd)
+  }
+  return relinked
+}
+
 /**
  * Check if .erudita is in .gitignore
  */
@@ -0,0 +1,336 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { SearchResult } from '../types.ts'
+import {
+  getCachedDocFile,
+  getCachedLlmsTxt,
+  getCachedMeta,
+  getPackageCacheDir,
+  listCached,
+  listCachedDocFiles,
+  SEARCH_INDEX_FILE,
+} from './cache.ts'
+
+// Bump when the index shape or the weighting changes so old indexes get rebuilt
+const SEARCH_INDEX_VERSION = 1
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+// Terms in headings count this many times more than terms in the body
+const HEADING_WEIGHT = 3
+
+const DEFAULT_LIMIT = 10
+const SNIPPET_LENGTH = 160
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+])
+
+/**
+ * A section of a markdown file, delimited by headings
+ */
+export interface MarkdownSection {
+  /** Heading path from the top-level heading down to this section */
+  headings: string[]
+  /** First line of the section (0-based, inclusive) */
+  start: number
+  /** Last line of the section (0-based, exclusive) */
+  end: number
+  /** Section body without the heading line */
+  body: string
+}
+
+/**
+ * Indexed section, stores weighted term frequencies instead of the text
+ */
+interface IndexedSection {
+  file: string
+  headings: string[]
+  start: number
+  end: number
+  length: number
+  terms: Record<string, number>
+}
+
+/**
+ * Search index for a single cached package
+ */
+export interface SearchIndex {
+  version: number
+  fetchedAt: number
+  sections: IndexedSection[]
+}
+
+/**
+ * Split text into lowercase search terms
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}_$]+/gu) || []
+  return tokens.filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+}
+
+/**
+ * Split markdown content into sections on its ATX headings
+ * Headings inside fenced code blocks are ignored
+ */
+export function splitSections(content: string): MarkdownSection[] {
+  const lines = content.split('\n')
+  const sections: MarkdownSection[] = []
+  const stack: { level: number; title: string }[] = []
+
+  let current: MarkdownSection = { headings: [], start: 0, end: 0, body: '' }
+  let bodyLines: string[] = []
+  let fence: string | null = null
+
+  const flush = (end: number) => {
+    current.end = end
+    current.body = bodyLines.join('\n').trim()
+    if (current.body || current.headings.length > 0) {
+      sections.push(current)
+    }
+  }
+
+  for (const [index, line] of lines.entries()) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/)
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1]
+      } else if (fence === fenceMatch[1]) {
+        fence = null
+      }
+      bodyLines.push(line)
+      continue
+    }
+
+    const headingMatch = !fence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/)
+    if (!headingMatch) {
+      bodyLines.push(line)
+      continue
+    }
+
+    flush(index)
+
+    const level = headingMatch[1].length
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop()
+    }
+    stack.push({ level, title: headingMatch[2] })
+
+    current = { headings: stack.map((h) => h.title), start: index, end: index, body: '' }
+    bodyLines = []
+  }
+
+  flush(lines.length)
+  return sections
+}
+
+/**
+ * Build a search index from a package's files (filename -> content)
+ */
+export function buildSearchIndex(files: Map<string, string>, fetchedAt = 0): SearchIndex {
+  const sections: IndexedSection[] = []
+
+  for (const [file, content] of files) {
+    for (const section of splitSections(content)) {
+      const terms: Record<string, number> = {}
+      const headingTokens = tokenize(section.headings[section.headings.length - 1] || '')
+      const bodyTokens = tokenize(section.body)
+
+      for (const token of headingTokens) {
+        terms[token] = (terms[token] || 0) + HEADING_WEIGHT
+      }
+      for (const token of bodyTokens) {
+        terms[token] = (terms[token] || 0) + 1
+      }
+
+      const length = headingTokens.length * HEADING_WEIGHT + bodyTokens.length
+      if (length === 0) {
+        continue
+      }
+
+      sections.push({
+        file,
+        headings: section.headings,
+        start: section.start,
+        end: section.end,
+        length,
+        terms,
+      })
+    }
+  }
+
+  return { version: SEARCH_INDEX_VERSION, fetchedAt, sections }
+}
+
+/**
+ * Read all indexable files of a cached package: llms.txt and its docs
+ */
+function readPackageFiles(packageName: string): Map<string, string> {
+  const files = new Map<string, string>()
+  const llmsTxt = getCachedLlmsTxt(packageName)
+  if (llmsTxt) {
+    files.set('llms.txt', llmsTxt)
+  }
+  for (const filename of listCachedDocFiles(packageName)) {
+    const content = getCachedDocFile(packageName, filename)
+    if (content) {
+      files.set(filename, content)
+    }
+  }
+  return files
+}
+
+/**
+ * Get the search index of a cached package
+ * Rebuilds and persists it when missing or older than the cached docs
+ */
+export function getSearchIndex(packageName: string): SearchIndex | null {
+  const meta = getCachedMeta(packageName)
+  if (!meta) {
+    return null
+  }
+
+  const indexPath = join(getPackageCacheDir(packageName), SEARCH_INDEX_FILE)
+  if (existsSync(indexPath)) {
+    try {
+      const index: SearchIndex = JSON.parse(readFileSync(indexPath, 'utf-8'))
+      if (index.version === SEARCH_INDEX_VERSION && index.fetchedAt === meta.fetchedAt) {
+        return index
+      }
+    } catch {
+      // Corrupted index, rebuild it below
+    }
+  }
+
+  const index = buildSearchIndex(readPackageFiles(packageName), meta.fetchedAt)
+  writeFileSync(indexPath, JSON.stringify(index))
+  return index
+}
+
+/**
+ * Build a one-line snippet from a section, centered on the first matching term
+ */
+export function buildSnippet(lines: string[], terms: string[]): string {
+  const textLines = lines
+    .map((line) => line.trim())
+    .filter((line) => line && !/^(```|~~~|#{1,6}\s)/.test(line))
+
+  const matchLine =
+    textLines.find((line) => {
+      const lower = line.toLowerCase()
+      return terms.some((term) => lower.includes(term))
+    }) ||
+    textLines[0] ||
+    ''
+
+  const text = matchLine.replace(/\s+/g, ' ')
+  if (text.length <= SNIPPET_LENGTH) {
+    return text
+  }
+
+  const lower = text.toLowerCase()
+  const matches = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0)
+  const matchIndex = matches.length > 0 ? Math.min(...matches) : 0
+  const start = Math.max(0, Math.min(matchIndex - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH))
+  const snippet = text.slice(start, start + SNIPPET_LENGTH).trim()
+  return (start > 0 ? '…' : '') + snippet + (start + SNIPPET_LENGTH < text.length ? '…' : '')
+}
+
+/**
+ * Search cached documentation, ranking sections with BM25
+ * Searches every cached package unless `packages` is given
+ */
+export function searchDocs(
+  query: string,
+  options: { packages?: string[]; limit?: number } = {},
+): SearchResult[] {
+  const { limit = DEFAULT_LIMIT } = options
+  const terms = [...new Set(tokenize(query))]
+  if (terms.length === 0) {
+    return []
+  }
+
+  const packageNames =
+    options.packages && options.packages.length > 0
+      ? options.packages
+      : listCached().map((meta) => meta.name)
+
+  const indexed: { packageName: string; section: IndexedSection }[] = []
+  for (const packageName of packageNames) {
+    const index = getSearchIndex(packageName)
+    if (!index) {
+      continue
+    }
+    for (const section of index.sections) {
+      indexed.push({ packageName, section })
+    }
+  }
+
+  if (indexed.length === 0) {
+    return []
+  }
+
+  // Document frequencies and average length over all searched sections
+  const total = indexed.length
+  const avgLength = indexed.reduce((sum, { section }) => sum + section.length, 0) / total
+  const idf = new Map<string, number>()
+  for (const term of terms) {
+    const df = indexed.filter(({ section }) => section.terms[term]).length
+    idf.set(term, Math.log(1 + (total - df + 0.5) / (df + 0.5)))
+  }
+
+  const scored: { packageName: string; section: IndexedSection; score: number }[] = []
+  for (const { packageName, section } of indexed) {
+    let score = 0
+    for (const term of terms) {
+      const tf = section.terms[term]
+      if (!tf) {
+        continue
+      }
+      const norm = K1 * (1 - B + (B * section.length) / avgLength)
+      score += idf.get(term)! * ((tf * (K1 + 1)) / (tf + norm))
+    }
+    if (score > 0) {
+      scored.push({ packageName, section, score })
+    }
+  }
+
+  scored.sort((a, b) => b.score - a.score)
+
+  return scored.slice(0, limit).map(({ packageName, section, score }) => {
+    const content =
+      section.file === 'llms.txt'
+        ? getCachedLlmsTxt(packageName)
+        : getCachedDocFile(packageName, section.file)
+    const lines = (content || '').split('\n').slice(section.start, section.end)
+    return {
+      packageName,
+      file: section.file,
+      headings: section.headings,
+      line: section.start + 1,
+      score,
+      snippet: buildSnippet(lines, terms),
+    }
+  })
+}
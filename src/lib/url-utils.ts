@@ -1,3 +1,7 @@
+import { realpathSync } from 'node:fs'
+import { isAbsolute, relative, resolve, sep } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
 /**
  * Validate and normalize a URL for package homepage
  * Validates http/https protocol and removes trailing slashes
@@ -34,3 +38,62 @@ export function validateUrl(url: string): string | null {
     return null
   }
 }
+
+/**
+ * Whether a package source is a local path or file: URL instead of a website
+ * e.g., file:./docs, ./llms.txt, /srv/docs
+ */
+export function isLocalSource(source: string): boolean {
+  return source.startsWith('file:') || /^(\.{1,2}([\\/]|$)|[\\/]|[a-zA-Z]:[\\/])/.test(source)
+}
+
+/**
+ * Validate a package source: an http/https URL or a local path
+ * Local paths are kept relative and prefixed with file: so erudita.json stays portable
+ * @returns Normalized source or null if invalid
+ */
+export function validateSource(source: string): string | null {
+  if (!source || typeof source !== 'string') {
+    return null
+  }
+
+  const trimmed = source.trim()
+  if (isLocalSource(trimmed)) {
+    return trimmed.startsWith('file:') ? trimmed : `file:${trimmed}`
+  }
+  return validateUrl(trimmed)
+}
+
+/**
+ * Resolve a package source to the URL docs are fetched from
+ * Local paths become absolute file: URLs, relative ones (file:./docs) are resolved against `cwd`
+ */
+export function resolveSource(source: string, cwd: string): string {
+  if (!isLocalSource(source)) {
+    return source
+  }
+  if (source.startsWith('file://')) {
+    return new URL(source).href
+  }
+  const path = source.startsWith('file:') ? source.slice('file:'.length) : source
+  return pathToFileURL(resolve(cwd, path)).href
+}
+
+/**
+ * Whether a path stays inside a directory, also once symlinks are followed
+ */
+export function isPathInside(dir: string, path: string): boolean {
+  const inside = (from: string, to: string) => {
+    const rel = relative(from, to)
+    return rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel)
+  }
+  if (!inside(resolve(dir), resolve(path))) {
+    return false
+  }
+  try {
+    return inside(realpathSync(dir), realpathSync(path))
+  } catch {
+    // Paths that don't exist can't point elsewhere
+    return true
+  }
+}
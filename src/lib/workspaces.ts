@@ -0,0 +1,265 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+export type DepsFilter = 'all' | 'dev' | 'prod' | 'peer' | 'optional'
+
+type DependencyField =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies'
+  | 'optionalDependencies'
+
+// Order dependencies are read in
+const DEPENDENCY_FIELDS: DependencyField[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+]
+
+// all keeps its original meaning, peer and optional are opt-in
+const DEPS_FILTER_FIELDS: Record<DepsFilter, DependencyField[]> = {
+  prod: ['dependencies'],
+  dev: ['devDependencies'],
+  peer: ['peerDependencies'],
+  optional: ['optionalDependencies'],
+  all: ['dependencies', 'devDependencies'],
+}
+
+/**
+ * Parse a --deps value, a filter or a comma-separated list like "prod,peer"
+ * Returns null if a filter is unknown
+ */
+export function parseDepsFilters(value: string): DepsFilter[] | null {
+  const filters = value
+    .split(',')
+    .map((filter) => filter.trim())
+    .filter(Boolean)
+  return filters.length > 0 && filters.every((filter) => Object.hasOwn(DEPS_FILTER_FIELDS, filter))
+    ? (filters as DepsFilter[])
+    : null
+}
+
+/**
+ * Package of a monorepo, found through its workspace patterns
+ */
+export interface WorkspacePackage {
+  /** Name in its package.json, if any */
+  name?: string
+  /** Directory relative to the workspace root, with forward slashes */
+  dir: string
+}
+
+type PackageJson = { name?: string; workspaces?: string[] | { packages?: string[] } } & {
+  [field in DependencyField]?: Record<string, string>
+}
+
+function readPackageJson(dir: string): PackageJson | null {
+  const pkgPath = join(dir, 'package.json')
+  if (!existsSync(pkgPath)) {
+    return null
+  }
+  try {
+    return JSON.parse(readFileSync(pkgPath, 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed
+}
+
+/**
+ * Read the packages list of pnpm-workspace.yaml, in block or flow style
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const lines = content.split(/\r?\n/)
+  const start = lines.findIndex((line) => line.startsWith('packages:'))
+  if (start === -1) {
+    return []
+  }
+
+  const inline = lines[start].slice('packages:'.length).trim()
+  if (inline.startsWith('[')) {
+    return inline
+      .replace(/^\[|\].*$/g, '')
+      .split(',')
+      .map(unquote)
+      .filter(Boolean)
+  }
+
+  const patterns: string[] = []
+  for (const line of lines.slice(start + 1)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue
+    }
+    // The list ends with the next top-level key
+    if (!trimmed.startsWith('-')) {
+      break
+    }
+    const pattern = unquote(trimmed.slice(1).replace(/\s#.*$/, ''))
+    if (pattern) {
+      patterns.push(pattern)
+    }
+  }
+  return patterns
+}
+
+/**
+ * Read the workspace patterns of a monorepo root, from pnpm-workspace.yaml
+ * or the workspaces field of package.json (npm, yarn and bun)
+ */
+export function readWorkspacePatterns(cwd: string): string[] {
+  const pnpmWorkspace = join(cwd, 'pnpm-workspace.yaml')
+  if (existsSync(pnpmWorkspace)) {
+    return parsePnpmWorkspace(readFileSync(pnpmWorkspace, 'utf-8'))
+  }
+
+  const workspaces = readPackageJson(cwd)?.workspaces
+  const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages
+  return Array.isArray(patterns) ? patterns.filter((pattern) => typeof pattern === 'string') : []
+}
+
+function globToRegExp(glob: string): RegExp {
+  const segments = glob.split('/')
+  let source = ''
+  segments.forEach((segment, i) => {
+    if (segment === '**') {
+      // Zero or more directories
+      source += i === 0 ? '(?:[^/]+/)*' : '(?:/[^/]+)*'
+      return
+    }
+    // A leading ** already ends with a slash
+    if (i > 0 && !(i === 1 && segments[0] === '**')) {
+      source += '/'
+    }
+    source += segment
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*')
+  })
+  return new RegExp(`^${source}$`)
+}
+
+function listSubdirectories(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'),
+      )
+      .map((entry) => entry.name)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Expand a glob pattern, e.g. "packages/*" or "apps/**", to existing directories
+ */
+function expandPattern(cwd: string, segments: string[], base = ''): string[] {
+  if (segments.length === 0) {
+    return [base]
+  }
+
+  const [segment, ...rest] = segments
+  if (segment === '**') {
+    // Zero or more directories
+    return [
+      ...expandPattern(cwd, rest, base),
+      ...listSubdirectories(join(cwd, base)).flatMap((name) =>
+        expandPattern(cwd, segments, base ? `${base}/${name}` : name),
+      ),
+    ]
+  }
+
+  if (!segment.includes('*')) {
+    const dir = base ? `${base}/${segment}` : segment
+    return existsSync(join(cwd, dir)) ? expandPattern(cwd, rest, dir) : []
+  }
+
+  const matcher = globToRegExp(segment)
+  return listSubdirectories(join(cwd, base))
+    .filter((name) => matcher.test(name))
+    .flatMap((name) => expandPattern(cwd, rest, base ? `${base}/${name}` : name))
+}
+
+/**
+ * Find the packages of a monorepo, sorted by directory
+ * Returns an empty list for single-package projects
+ */
+export function findWorkspacePackages(cwd: string): WorkspacePackage[] {
+  const patterns = readWorkspacePatterns(cwd).map((pattern) =>
+    pattern.replace(/^\.\//, '').replace(/\/+$/, ''),
+  )
+  const excluded = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => globToRegExp(pattern.slice(1).replace(/^\.\//, '')))
+
+  const dirs = new Set<string>()
+  for (const pattern of patterns.filter((pattern) => !pattern.startsWith('!'))) {
+    for (const dir of expandPattern(cwd, pattern.split('/').filter(Boolean))) {
+      if (dir && !excluded.some((matcher) => matcher.test(dir))) {
+        dirs.add(dir)
+      }
+    }
+  }
+
+  const packages: WorkspacePackage[] = []
+  for (const dir of [...dirs].sort()) {
+    const pkg = readPackageJson(join(cwd, dir))
+    if (pkg) {
+      packages.push({ name: typeof pkg.name === 'string' ? pkg.name : undefined, dir })
+    }
+  }
+  return packages
+}
+
+/**
+ * Get the directories to read dependencies from: the root and every workspace package,
+ * or a single workspace package given by name or directory
+ * Returns null when the workspace package doesn't exist
+ */
+export function getWorkspaceDirs(cwd: string, workspace?: string): string[] | null {
+  const packages = findWorkspacePackages(cwd)
+  if (!workspace) {
+    return ['.', ...packages.map((pkg) => pkg.dir)]
+  }
+
+  const dir = workspace.replace(/^\.\//, '').replace(/\/+$/, '')
+  const match = packages.find((pkg) => pkg.name === workspace || pkg.dir === dir)
+  return match ? [match.dir] : null
+}
+
+/**
+ * Read and deduplicate the package.json dependencies of some directories of a project
+ * Packages of the workspace itself are left out
+ */
+export function readPackageJsonDeps(
+  cwd: string,
+  filters: DepsFilter | DepsFilter[],
+  dirs: string[] = ['.'],
+): string[] {
+  const fields = new Set([filters].flat().flatMap((filter) => DEPS_FILTER_FIELDS[filter]))
+  const workspaceNames = new Set(findWorkspacePackages(cwd).map((pkg) => pkg.name))
+  const names = new Set<string>()
+
+  for (const dir of dirs) {
+    const pkg = readPackageJson(join(cwd, dir))
+    if (!pkg) {
+      continue
+    }
+    for (const field of DEPENDENCY_FIELDS.filter((field) => fields.has(field))) {
+      for (const name of Object.keys(pkg[field] || {})) {
+        if (!workspaceNames.has(name)) {
+          names.add(name)
+        }
+      }
+    }
+  }
+
+  return [...names]
+}
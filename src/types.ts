@@ -2,12 +2,28 @@
  * Parsed entry from llms.txt
  */
 export interface LlmsEntry {
-  /** Section title (H2 header) */
+  /** Link text */
   title: string
   /** URL to the documentation file */
   url: string
   /** Optional description text */
   description?: string
+  /** Title of the section (H2 header) listing the entry */
+  section?: string
+  /** Listed in the "Optional" section: secondary material that can be skipped */
+  optional?: boolean
+}
+
+/**
+ * Section of llms.txt, delimited by H2 headers
+ */
+export interface LlmsSection {
+  /** Section title (H2 header) */
+  title: string
+  /** Markdown prose of the section, without its entries */
+  content?: string
+  /** Entries listed in the section */
+  entries: LlmsEntry[]
 }
 
 /**
@@ -18,10 +34,31 @@ export interface LlmsDoc {
   title: string
   /** Document description (blockquote after H1) */
   description?: string
-  /** List of documentation entries */
+  /** Markdown prose between the description and the first section */
+  details?: string
+  /** All documentation entries, in order, including the ones of sections */
   entries: LlmsEntry[]
+  /** Sections, in order */
+  sections: LlmsSection[]
 }
 
+/**
+ * Where an llms.txt was found from a package's source URL
+ * - direct: at the source URL
+ * - root: on the root domain, filtered by the source URL path
+ * - docs-path: under /docs of the root domain
+ * - docs-subdomain: on the docs. subdomain
+ * - github: in the default branch of the GitHub repository
+ * - homepage-link: linked from the homepage HTML
+ */
+export type LlmsTxtDiscovery =
+  | 'direct'
+  | 'root'
+  | 'docs-path'
+  | 'docs-subdomain'
+  | 'github'
+  | 'homepage-link'
+
 /**
  * Metadata for a cached package
  */
@@ -32,6 +69,96 @@ export interface CachedPackageMeta {
   sourceUrl: string
   /** Unix timestamp of when the cache was created */
   fetchedAt: number
+  /** Resolved URL of the llms.txt file */
+  llmsTxtUrl?: string
+  /** Path prefix used to filter entries when llms.txt came from the root domain */
+  pathPrefix?: string
+  /** Step of the discovery chain that found the llms.txt */
+  discovery?: LlmsTxtDiscovery
+  /** HTTP validators of every fetched URL, used for conditional requests */
+  validators?: Record<string, HttpValidators>
+  /** Whether entries of the "Optional" section were left out */
+  skipOptional?: boolean
+  /** Doc files converted from HTML pages to Markdown */
+  htmlDocs?: string[]
+  /** Git repository the docs were checked out from, with the checked out commit */
+  git?: GitSource & { commit: string }
+}
+
+/**
+ * Docs kept in a git repository instead of a website
+ */
+export interface GitSource {
+  /** Repository URL or path */
+  git: string
+  /** Branch, tag or commit to check out (default: the default branch) */
+  ref?: string
+  /** Path of the llms.txt in the repository (default: llms.txt) */
+  path?: string
+}
+
+/**
+ * Status of a cached doc
+ * - ok: fetched or revalidated by the last fetch
+ * - stale: the last fetch failed, the file is from a previous fetch
+ * - failed: the doc could not be fetched and has no cached file
+ */
+export type CachedDocStatus = 'ok' | 'stale' | 'failed'
+
+/**
+ * Cached file of a doc URL
+ */
+export interface DocManifestEntry {
+  /** Path of the file inside the docs directory */
+  file: string
+  /** File size in bytes */
+  size: number
+  status: CachedDocStatus
+}
+
+/**
+ * Maps the doc URLs of a cached package to their files
+ */
+export interface DocManifest {
+  version: number
+  /** Cached docs, by URL */
+  docs: Record<string, DocManifestEntry>
+}
+
+/**
+ * HTTP cache validators of a fetched URL
+ */
+export interface HttpValidators {
+  /** ETag response header */
+  etag?: string
+  /** Last-Modified response header */
+  lastModified?: string
+}
+
+/**
+ * Previously cached state used to send conditional requests
+ */
+export interface ConditionalCache {
+  /** Validators from the previous fetch, by URL */
+  validators: Record<string, HttpValidators>
+  /** Cached llms.txt content as served, reused when the server answers 304 Not Modified */
+  llmsTxt: string
+  /** Cached doc files that were converted from HTML */
+  htmlDocs?: string[]
+}
+
+/**
+ * Previous version of a cached package kept for rollbacks
+ */
+export interface PackageSnapshot {
+  /** Snapshot identifier (fetch timestamp of the snapshotted cache) */
+  id: string
+  /** Unix timestamp of when the snapshotted docs were fetched */
+  fetchedAt: number
+  /** Source URL of the snapshotted docs */
+  sourceUrl: string
+  /** Number of cached doc files */
+  docCount: number
 }
 
 /**
@@ -54,7 +181,11 @@ export interface FetchProgressEvent {
   total: number
   completed: number
   errors: number
+  /** Requests the hosts throttled so far, with a 429 or 503 */
+  throttled?: number
   url?: string
+  /** Delay in milliseconds before retrying the throttled request of url */
+  retryAfter?: number
   error?: string
 }
 
@@ -65,16 +196,72 @@ export type FetchProgressCallback = (event: FetchProgressEvent) => void
  */
 export type ProjectLinkMode = 'link' | 'copy'
 
+/**
+ * User-level settings, from config.json and ERUDITA_* environment variables
+ */
+export interface EruditaConfig {
+  /** Number of concurrent downloads */
+  concurrency: number
+  /** Number of concurrent downloads from a single host, 0 for no limit */
+  hostConcurrency: number
+  /** Requests per minute to a single host, 0 for no limit */
+  hostRateLimit: number
+  /** Request timeout in milliseconds */
+  timeout: number
+  /** Attempts per request before giving up */
+  retries: number
+  /** Where fetched docs are cached */
+  cacheDir: string
+  /** How docs are installed into projects without a linkMode */
+  linkMode: ProjectLinkMode
+  /** Number of previous versions kept per package */
+  maxSnapshots: number
+  /** Proxy for all requests, empty to use HTTPS_PROXY and HTTP_PROXY */
+  proxy: string
+  /** PEM bundle of extra trusted root certificates, empty for none */
+  caFile: string
+}
+
+/**
+ * Package of erudita.json, docs come from a website (or local path) or a git repository
+ */
+export type ProjectPackage = ({ url: string } | GitSource) & { skipOptional?: boolean }
+
 /**
  * Project-level erudita.json config (committed)
  */
 export interface EruditaProject {
   /** Package docs to install. Key = "name" or "name@version" */
-  packages: Record<string, { url: string }>
+  packages: Record<string, ProjectPackage>
   /** How docs are installed into .erudita (default: link) */
   linkMode?: ProjectLinkMode
 }
 
+/**
+ * Locked state of a package in erudita.lock
+ */
+export interface EruditaLockEntry {
+  /** Resolved URL of the llms.txt file, or repository#commit for git sources */
+  resolved?: string
+  /** Path prefix used to filter entries */
+  pathPrefix?: string
+  /** Unix timestamp of when the locked docs were fetched */
+  fetchedAt: number
+  /** Content hash of llms.txt */
+  llmsTxt: string
+  /** Content hash of every doc file, by filename */
+  docs: Record<string, string>
+}
+
+/**
+ * Project-level erudita.lock (committed)
+ */
+export interface EruditaLock {
+  lockfileVersion: number
+  /** Locked packages. Key = "name" or "name@version" */
+  packages: Record<string, EruditaLockEntry>
+}
+
 /**
  * Parsed package key with optional version
  */
@@ -82,3 +269,21 @@ export interface ParsedPackageKey {
   name: string
   version: string | null
 }
+
+/**
+ * Ranked section returned by a documentation search
+ */
+export interface SearchResult {
+  /** Cached package key */
+  packageName: string
+  /** File inside the package cache (llms.txt or a doc file) */
+  file: string
+  /** Heading path leading to the section */
+  headings: string[]
+  /** 1-based line where the section starts */
+  line: number
+  /** BM25 score */
+  score: number
+  /** Excerpt of the section around the first match */
+  snippet: string
+}